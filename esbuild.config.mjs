@@ -1,6 +1,7 @@
 import esbuild from "esbuild";
 import process from "process";
 import builtins from "builtin-modules";
+import path from "path";
 
 const banner = `/*
 Task Consolidator v2.0.0
@@ -10,12 +11,42 @@ Obsidian Plugin for consolidated task management
 
 const prod = process.argv[2] === "production";
 
+// Bundles `worker:./file` imports on their own and inlines the result as a
+// string, so a worker can be started from a Blob without a separate file
+const inlineWorkerPlugin = {
+  name: "inline-worker",
+  setup(build) {
+    build.onResolve({ filter: /^worker:/ }, (args) => {
+      const file = path.resolve(args.resolveDir, args.path.slice("worker:".length));
+      return { path: path.extname(file) ? file : `${file}.ts`, namespace: "inline-worker" };
+    });
+
+    build.onLoad({ filter: /.*/, namespace: "inline-worker" }, async (args) => {
+      const result = await esbuild.build({
+        entryPoints: [args.path],
+        bundle: true,
+        write: false,
+        metafile: true,
+        format: "iife",
+        target: "es2018",
+        minify: prod,
+      });
+      return {
+        contents: result.outputFiles[0].text,
+        loader: "text",
+        watchFiles: Object.keys(result.metafile.inputs).map((input) => path.resolve(input)),
+      };
+    });
+  },
+};
+
 const context = await esbuild.context({
   banner: {
     js: banner,
   },
   entryPoints: ["src/main.ts"],
   bundle: true,
+  plugins: [inlineWorkerPlugin],
   external: [
     "obsidian",
     "electron",
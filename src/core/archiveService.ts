@@ -0,0 +1,243 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { ArchiveRule, BulkOperationResult, Task, TaskConsolidatorSettings, TaskMoveHeading } from '../types';
+import { addDays, formatDateToISO, getToday } from '../utils/dateUtils';
+import { TaskCache } from './taskCache';
+import { TaskUpdater } from './taskUpdater';
+
+// ========================================
+// Archive Service
+// ========================================
+
+const ARCHIVE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Least time between automatic runs */
+const ARCHIVE_RUN_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface ArchivePlanItem {
+  task: Task;
+  rule: ArchiveRule;
+  /** Note the task moves to; an archive note may not exist yet */
+  targetPath: string;
+  /** Headings the task goes under, outermost first; the last is its month */
+  headings: TaskMoveHeading[];
+}
+
+/**
+ * Moves completed tasks, with their completed subtasks, out of project
+ * notes into an archive note or heading, grouped by the month they were
+ * completed in. Runs on demand with a preview, or once a day when
+ * `archiveAutomatically` is on. A whole run is one undo step.
+ */
+export class ArchiveService {
+  private app: App;
+  private settings: TaskConsolidatorSettings;
+  private taskCache: TaskCache;
+  private taskUpdater: TaskUpdater;
+  private saveSettings: () => Promise<void>;
+  private interval: number | null = null;
+  private running = false;
+
+  constructor(
+    app: App,
+    settings: TaskConsolidatorSettings,
+    taskCache: TaskCache,
+    taskUpdater: TaskUpdater,
+    saveSettings: () => Promise<void>
+  ) {
+    this.app = app;
+    this.settings = settings;
+    this.taskCache = taskCache;
+    this.taskUpdater = taskUpdater;
+    this.saveSettings = saveSettings;
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(settings: TaskConsolidatorSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Check now and then every hour whether an automatic run is due
+   */
+  start(): void {
+    this.stop();
+    this.interval = window.setInterval(() => void this.runScheduled(), ARCHIVE_CHECK_INTERVAL_MS);
+    void this.runScheduled();
+  }
+
+  /**
+   * Stop the timer
+   */
+  stop(): void {
+    if (this.interval !== null) {
+      window.clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.stop();
+  }
+
+  /**
+   * The tasks the enabled rules would archive now, and where to. Nothing
+   * is changed, so this doubles as the dry run.
+   */
+  getArchivePlan(): ArchivePlanItem[] {
+    const rules = this.settings.archiveRules.filter(rule => rule.enabled && rule.target.trim());
+    if (rules.length === 0) return [];
+
+    const plan: ArchivePlanItem[] = [];
+
+    // Subtasks are archived with their parent, never on their own
+    for (const task of this.taskCache.getAllTasks()) {
+      if (task.parentId || !task.completedDate || !this.isSubtreeCompleted(task)) continue;
+
+      const rule = rules.find(r => this.isInScope(task, r));
+      if (!rule || this.isInArchive(task, rule)) continue;
+
+      const cutoff = formatDateToISO(addDays(getToday(), -rule.olderThanDays));
+      if (task.completedDate >= cutoff) continue;
+
+      const month: TaskMoveHeading = { text: task.completedDate.slice(0, 7), level: 2 };
+      plan.push(rule.destination === 'file'
+        ? { task, rule, targetPath: this.getArchivePath(rule), headings: [month] }
+        : {
+          task,
+          rule,
+          targetPath: task.file.path,
+          headings: [{ text: rule.target.trim(), level: 2 }, { ...month, level: 3 }]
+        });
+    }
+
+    return plan;
+  }
+
+  /**
+   * Move the tasks of a plan to their archive headings, creating archive
+   * notes and headings as needed
+   */
+  async archive(plan: ArchivePlanItem[]): Promise<BulkOperationResult> {
+    const result: BulkOperationResult = { successful: 0, failed: 0, errors: [] };
+    if (plan.length === 0) return result;
+    if (this.running) {
+      result.failed = plan.length;
+      result.errors.push('Archiving is already running');
+      return result;
+    }
+
+    this.running = true;
+    try {
+      const allTasks = this.taskCache.getAllTasksWithSubtasks();
+      const preparedHeadings = new Set<string>();
+
+      await this.taskUpdater.recordUndoGroup(`Archive ${plan.length} tasks`, async (group) => {
+        for (const item of plan) {
+          try {
+            const file = await this.getArchiveFile(item.targetPath);
+
+            const key = `${file.path}\n${item.headings.map(h => h.text).join('\n')}`;
+            if (!preparedHeadings.has(key)) {
+              await this.taskUpdater.ensureHeadings(file, item.headings, group);
+              preparedHeadings.add(key);
+            }
+
+            const moved = await this.taskUpdater.moveTask(
+              item.task,
+              { file, heading: item.headings[item.headings.length - 1] },
+              allTasks,
+              group
+            );
+            if (moved.success) {
+              result.successful++;
+            } else {
+              result.failed++;
+              result.errors.push(`${item.task.text}: ${moved.error}`);
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            result.failed++;
+            result.errors.push(`${item.task.text}: ${message}`);
+          }
+        }
+      });
+    } finally {
+      this.running = false;
+    }
+
+    if (this.settings.debugMode) {
+      console.log('Task Consolidator: Archived completed tasks', result);
+    }
+    return result;
+  }
+
+  /**
+   * Archive without a preview if automatic archiving is on and the last
+   * run was over a day ago. Returns the number of tasks archived.
+   */
+  async runScheduled(): Promise<number> {
+    if (!this.settings.archiveAutomatically || !this.taskCache.initialized || this.running) return 0;
+    if (Date.now() - this.settings.lastArchiveRun < ARCHIVE_RUN_INTERVAL_MS) return 0;
+
+    const result = await this.archive(this.getArchivePlan());
+    this.settings.lastArchiveRun = Date.now();
+    await this.saveSettings();
+    return result.successful;
+  }
+
+  private isSubtreeCompleted(task: Task): boolean {
+    return task.completed && task.children.every(child => this.isSubtreeCompleted(child));
+  }
+
+  /**
+   * Whether a task is in a rule's folder and project, whatever its age
+   */
+  private isInScope(task: Task, rule: ArchiveRule): boolean {
+    const folder = rule.folder.trim() ? normalizePath(rule.folder.trim()) : '';
+    if (folder && !task.file.path.startsWith(`${folder}/`)) return false;
+
+    const project = rule.project.trim().toLowerCase();
+    return !project || task.project?.toLowerCase() === project;
+  }
+
+  /**
+   * Whether a task already sits where the rule archives to
+   */
+  private isInArchive(task: Task, rule: ArchiveRule): boolean {
+    if (rule.destination === 'file') {
+      return task.file.path === this.getArchivePath(rule);
+    }
+
+    const headings = this.app.metadataCache.getFileCache(task.file)?.headings ?? [];
+    const index = headings.findIndex(h => h.heading === rule.target.trim());
+    if (index === -1) return false;
+
+    const start = headings[index].position.start.line;
+    const next = headings.slice(index + 1).find(h => h.level <= headings[index].level);
+    return task.lineNumber > start && (!next || task.lineNumber < next.position.start.line);
+  }
+
+  private getArchivePath(rule: ArchiveRule): string {
+    const path = normalizePath(rule.target.trim());
+    return path.endsWith('.md') ? path : `${path}.md`;
+  }
+
+  /**
+   * The note to archive into, created with its folder if it doesn't exist
+   */
+  private async getArchiveFile(path: string): Promise<TFile> {
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) return existing;
+
+    const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+    return this.app.vault.create(path, '');
+  }
+}
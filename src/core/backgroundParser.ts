@@ -0,0 +1,114 @@
+import workerSource from 'worker:./taskParserWorker';
+import { ParseRequest, ParseResponse, ParseSource, SerializedTask, TaskStatus } from '../types';
+import { parseSerializedTasks } from './taskParser';
+
+// ========================================
+// Background Parser
+// ========================================
+
+interface PendingRequest {
+  resolve: (tasks: SerializedTask[][]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Parses file contents in a Web Worker so large refreshes don't block the
+ * UI. Falls back to parsing on the main thread, one batch per tick, where
+ * workers can't be started or the worker fails.
+ */
+export class BackgroundParser {
+  private worker: Worker | null = null;
+  private workerUrl: string | null = null;
+  private workerFailed = false;
+  private destroyed = false;
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextId = 0;
+
+  /**
+   * Parse a batch of files. Returns each file's tasks in input order,
+   * without their file or hierarchy.
+   */
+  async parse(files: ParseSource[], customStages: string[], statuses: TaskStatus[]): Promise<SerializedTask[][]> {
+    const worker = this.getWorker();
+    if (worker) {
+      try {
+        return await this.request(worker, { id: this.nextId++, files, customStages, statuses });
+      } catch (error) {
+        if (!this.destroyed) {
+          console.error('Task Consolidator: Parser worker failed, parsing on the main thread:', error);
+        }
+        this.stopWorker();
+        this.workerFailed = true;
+      }
+    }
+
+    // Let the UI paint between batches
+    await new Promise(resolve => window.setTimeout(resolve, 0));
+    return files.map(file => parseSerializedTasks(file, customStages, statuses));
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.destroyed = true;
+    this.workerFailed = true;
+    this.stopWorker();
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+
+    try {
+      this.workerUrl = URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' }));
+      this.worker = new Worker(this.workerUrl);
+      this.worker.onmessage = (event: MessageEvent<ParseResponse>) => this.handleResponse(event.data);
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        this.rejectAll(new Error(event.message || 'Worker error'));
+      };
+    } catch (error) {
+      console.error('Task Consolidator: Could not start parser worker:', error);
+      this.stopWorker();
+      this.workerFailed = true;
+    }
+
+    return this.worker;
+  }
+
+  private request(worker: Worker, request: ParseRequest): Promise<SerializedTask[][]> {
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+      worker.postMessage(request);
+    });
+  }
+
+  private handleResponse(response: ParseResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    this.pending.delete(response.id);
+    if (response.error) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.tasks);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  private stopWorker(): void {
+    this.rejectAll(new Error('Parser worker stopped'));
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.workerUrl) {
+      URL.revokeObjectURL(this.workerUrl);
+      this.workerUrl = null;
+    }
+  }
+}
@@ -50,6 +50,42 @@ export class CommentService {
     await this.persist();
   }
 
+  /**
+   * Move comments to a task's new ID (e.g. after it gets a block ID)
+   */
+  async migrateTaskId(oldId: string, newId: string): Promise<void> {
+    const moved = this.comments.get(oldId);
+    if (!moved || moved.length === 0 || oldId === newId) return;
+
+    const existing = this.comments.get(newId) ?? [];
+    this.comments.set(newId, [...existing, ...moved.map(c => ({ ...c, taskId: newId }))]);
+    this.comments.delete(oldId);
+    await this.persist();
+  }
+
+  /**
+   * Move the comments of a renamed file's tasks to their new IDs.
+   * Returns the number of tasks whose comments moved.
+   */
+  async migrateFilePath(oldPath: string, newPath: string): Promise<number> {
+    const moves: [string, string][] = [];
+    for (const taskId of this.comments.keys()) {
+      if (taskId.startsWith(`${oldPath}:`) || taskId.startsWith(`${oldPath}#^`)) {
+        moves.push([taskId, newPath + taskId.slice(oldPath.length)]);
+      }
+    }
+    if (moves.length === 0) return 0;
+
+    for (const [oldId, newId] of moves) {
+      const moved = this.comments.get(oldId)!;
+      const existing = this.comments.get(newId) ?? [];
+      this.comments.set(newId, [...existing, ...moved.map(c => ({ ...c, taskId: newId }))]);
+      this.comments.delete(oldId);
+    }
+    await this.persist();
+    return moves.length;
+  }
+
   private async persist(): Promise<void> {
     const data = await this.loadData() ?? {};
     const serialized: Record<string, TaskComment[]> = {};
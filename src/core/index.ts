@@ -1,4 +1,15 @@
 export * from './taskCache';
 export * from './taskParser';
+export * from './taskFormats';
+export * from './taskTokenizer';
+export * from './taskLineWriter';
+export * from './taskLocator';
 export * from './taskUpdater';
+export * from './taskFilter';
+export * from './taskIndex';
+export * from './backgroundParser';
 export * from './notificationService';
+export * from './recurrenceScheduler';
+export * from './renameService';
+export * from './archiveService';
+export * from './taskDoctor';
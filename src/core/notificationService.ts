@@ -1,7 +1,8 @@
 import { App, Notice } from 'obsidian';
 import { Task, TaskConsolidatorSettings } from '../types';
-import { isOverdue, isDueToday, parseISODate, getToday, addDays, formatDateToISO } from '../utils/dateUtils';
+import { isOverdue, isDueToday, getToday, addDays, formatDateToISO } from '../utils/dateUtils';
 import { getBlockedTasks } from '../utils/dependencyUtils';
+import { filterTasks } from './taskFilter';
 
 // ========================================
 // Notification Service
@@ -83,29 +84,22 @@ export class NotificationService {
    * Get notification summary for all tasks
    */
   getNotificationSummary(allTasks: Task[]): NotificationSummary {
-    const incompleteTasks = allTasks.filter(t => !t.completed);
+    const context = {
+      firstDayOfWeek: this.settings.firstDayOfWeek,
+      taskStatuses: this.settings.taskStatuses
+    };
     const today = getToday();
-    const upcomingEndDate = addDays(today, this.settings.upcomingDays);
-
-    const overdueTasks: Task[] = [];
-    const dueTodayTasks: Task[] = [];
-    const upcomingTasks: Task[] = [];
-
-    for (const task of incompleteTasks) {
-      if (!task.dueDate) continue;
-
-      if (isOverdue(task.dueDate)) {
-        overdueTasks.push(task);
-      } else if (isDueToday(task.dueDate)) {
-        dueTodayTasks.push(task);
-      } else {
-        // Check if upcoming (within configured days)
-        const dueDate = parseISODate(task.dueDate);
-        if (dueDate && dueDate > today && dueDate <= upcomingEndDate) {
-          upcomingTasks.push(task);
-        }
+    const incompleteTasks = filterTasks(allTasks, { completed: false }, context);
+
+    const overdueTasks = filterTasks(incompleteTasks, { dueDateFilter: 'overdue' }, context);
+    const dueTodayTasks = filterTasks(incompleteTasks, { dueDateFilter: 'today' }, context);
+    // Upcoming: after today, within the configured number of days
+    const upcomingTasks = filterTasks(incompleteTasks, {
+      dueDateRange: {
+        start: formatDateToISO(addDays(today, 1)),
+        end: formatDateToISO(addDays(today, this.settings.upcomingDays))
       }
-    }
+    }, context);
 
     // Get blocked tasks
     const blockedTasks = getBlockedTasks(incompleteTasks);
@@ -0,0 +1,116 @@
+import { TaskConsolidatorSettings } from '../types';
+import { addDays, formatDateToISO, getToday } from '../utils/dateUtils';
+import { getOccurrences } from '../utils/recurrenceUtils';
+import { TaskCache } from './taskCache';
+import { TaskUpdater } from './taskUpdater';
+
+// ========================================
+// Recurrence Scheduler
+// ========================================
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Upper bound on instances created per series in one run */
+const MAX_OCCURRENCES_AHEAD = 10;
+
+/**
+ * Creates the upcoming instances of open recurring series once they fall
+ * within `recurringCreateDaysBefore` days, on load and then every hour.
+ */
+export class RecurrenceScheduler {
+  private settings: TaskConsolidatorSettings;
+  private taskCache: TaskCache;
+  private taskUpdater: TaskUpdater;
+  private interval: number | null = null;
+  private running = false;
+  /** Look-ahead settings of the last run; the settings object is edited in place */
+  private lookAhead: string;
+
+  constructor(settings: TaskConsolidatorSettings, taskCache: TaskCache, taskUpdater: TaskUpdater) {
+    this.settings = settings;
+    this.taskCache = taskCache;
+    this.taskUpdater = taskUpdater;
+    this.lookAhead = this.getLookAhead();
+  }
+
+  /**
+   * Update settings reference, running again when the look-ahead changed
+   */
+  updateSettings(settings: TaskConsolidatorSettings): void {
+    this.settings = settings;
+    if (this.getLookAhead() !== this.lookAhead && this.interval !== null) {
+      void this.run();
+    }
+  }
+
+  /**
+   * Run once now and then on a timer
+   */
+  start(): void {
+    this.stop();
+    this.interval = window.setInterval(() => void this.run(), SCHEDULER_INTERVAL_MS);
+    void this.run();
+  }
+
+  /**
+   * Stop the timer
+   */
+  stop(): void {
+    if (this.interval !== null) {
+      window.clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Create every missing instance due within the look-ahead window.
+   * Returns the number of instances created.
+   */
+  async run(): Promise<number> {
+    this.lookAhead = this.getLookAhead();
+    const daysBefore = this.settings.recurringCreateDaysBefore;
+    if (!this.settings.recurringAutoCreate || daysBefore <= 0) return 0;
+    if (!this.taskCache.initialized || this.running) return 0;
+
+    this.running = true;
+    try {
+      const horizon = formatDateToISO(addDays(getToday(), daysBefore));
+      let created = 0;
+
+      // "When done" series are skipped: their next due date depends on completion
+      const heads = this.taskCache.getSeriesHeads().filter(task => !task.recurrence!.whenDone);
+
+      // One run is undone as one step
+      await this.taskUpdater.recordUndoGroup('Create upcoming occurrences', async (group) => {
+        for (const head of heads) {
+          const dueDates = getOccurrences(head.recurrence!, head.dueDate, MAX_OCCURRENCES_AHEAD, {
+            holidays: this.settings.holidays
+          }).filter(date => date <= horizon);
+          if (dueDates.length === 0) continue;
+
+          const result = await this.taskUpdater.createOccurrencesAhead(head, dueDates, group);
+          if (result.success) {
+            created += dueDates.length;
+          } else if (this.settings.debugMode) {
+            console.log(`Could not create occurrences for ${head.id}: ${result.error}`);
+          }
+        }
+      });
+
+      return created;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private getLookAhead(): string {
+    return `${this.settings.recurringAutoCreate}:${this.settings.recurringCreateDaysBefore}`;
+  }
+}
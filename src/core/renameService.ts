@@ -0,0 +1,158 @@
+import { App, TFile } from 'obsidian';
+import { TaskConsolidatorSettings, BulkOperationResult } from '../types';
+import { renameTaskReference } from '../utils/dependencyUtils';
+import { replaceFileTerms } from '../utils/searchParser';
+import { TaskCache } from './taskCache';
+import { TaskUpdater } from './taskUpdater';
+import { CommentService } from './commentService';
+
+// ========================================
+// Rename Migration
+// ========================================
+
+export interface RenameMigrationResult {
+  /** Tasks in other notes whose dependency references were rewritten */
+  references: number;
+  /** Tasks whose comments moved to their new IDs */
+  comments: number;
+  /** Saved filters and workspaces whose file: terms were rewritten */
+  queries: number;
+  errors: string[];
+}
+
+/**
+ * Carries everything keyed by a note's path over to its new path when it
+ * is renamed or moved: cached tasks, comments, undo history, dependency
+ * references in other notes, and file: terms in saved filters and workspaces.
+ */
+export class RenameService {
+  private app: App;
+  private settings: TaskConsolidatorSettings;
+  private taskCache: TaskCache;
+  private taskUpdater: TaskUpdater;
+  private commentService: CommentService;
+  private saveSettings: () => Promise<void>;
+
+  constructor(
+    app: App,
+    settings: TaskConsolidatorSettings,
+    taskCache: TaskCache,
+    taskUpdater: TaskUpdater,
+    commentService: CommentService,
+    saveSettings: () => Promise<void>
+  ) {
+    this.app = app;
+    this.settings = settings;
+    this.taskCache = taskCache;
+    this.taskUpdater = taskUpdater;
+    this.commentService = commentService;
+    this.saveSettings = saveSettings;
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(settings: TaskConsolidatorSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Migrate a renamed note. The cache is updated first, so the references
+   * found afterwards already include the note's own tasks under its new path.
+   */
+  async handleRename(file: TFile, oldPath: string): Promise<RenameMigrationResult> {
+    const result: RenameMigrationResult = { references: 0, comments: 0, queries: 0, errors: [] };
+
+    await this.taskCache.renameFile(file, oldPath);
+    this.taskUpdater.migrateFilePath(oldPath, file.path);
+    result.comments = await this.commentService.migrateFilePath(oldPath, file.path);
+
+    const references = await this.updateReferences(file, oldPath);
+    result.references = references.successful;
+    result.errors.push(...references.errors);
+
+    result.queries = this.updateQueries(file, oldPath);
+    if (result.queries > 0) {
+      await this.saveSettings();
+    }
+
+    if (this.settings.debugMode) {
+      console.log(`Task Consolidator: Migrated rename of ${oldPath} to ${file.path}`, result);
+    }
+    return result;
+  }
+
+  /**
+   * Rewrite [blocked-by:] and [blocks:] references that point into the renamed note
+   */
+  private async updateReferences(file: TFile, oldPath: string): Promise<BulkOperationResult> {
+    const basenames = new Map<string, number>();
+    for (const other of this.app.vault.getMarkdownFiles()) {
+      basenames.set(other.basename, (basenames.get(other.basename) ?? 0) + 1);
+    }
+
+    const rename = (id: string): string =>
+      renameTaskReference(id, oldPath, file.path, basename => basenames.get(basename) ?? 0) ?? id;
+
+    const tasks = this.taskCache.getAllTasksWithSubtasks()
+      .filter(task => [...task.blockedBy, ...task.blocks].some(id => rename(id) !== id));
+    return this.taskUpdater.replaceDependencyReferences(tasks, rename);
+  }
+
+  /**
+   * Rewrite file: terms naming the renamed note in saved filters and
+   * workspaces. Returns the number of queries changed.
+   */
+  private updateQueries(file: TFile, oldPath: string): number {
+    const replace = (value: string): string | null => this.renameFileTerm(value, file, oldPath);
+    let changed = 0;
+
+    for (const filter of this.settings.savedFilters) {
+      const query = replaceFileTerms(filter.query, replace);
+      if (query !== filter.query) {
+        filter.query = query;
+        changed++;
+      }
+    }
+
+    for (const workspace of this.settings.workspaces) {
+      const query = replaceFileTerms(workspace.searchQuery, replace);
+      if (query !== workspace.searchQuery) {
+        workspace.searchQuery = query;
+        changed++;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * The new value of a file: term, or null to keep it. Terms that name the
+   * note by path, path without extension or basename follow it; a term for
+   * its old folder follows too once that folder no longer exists.
+   */
+  private renameFileTerm(value: string, file: TFile, oldPath: string): string | null {
+    const lower = value.toLowerCase();
+    const oldLower = oldPath.toLowerCase();
+    const oldBasename = oldPath.slice(oldPath.lastIndexOf('/') + 1).replace(/\.md$/i, '');
+
+    if (lower === oldLower) return file.path;
+    if (lower === oldLower.replace(/\.md$/, '')) return file.path.replace(/\.md$/i, '');
+
+    if (lower === oldBasename.toLowerCase() && oldBasename !== file.basename &&
+        !this.app.vault.getMarkdownFiles().some(other => other.basename === oldBasename)) {
+      return file.basename;
+    }
+
+    const oldFolder = oldPath.includes('/') ? oldPath.slice(0, oldPath.lastIndexOf('/')) : '';
+    const newFolder = file.parent?.path ?? '';
+    const folder = value.replace(/\/$/, '');
+    if (oldFolder && newFolder && newFolder !== '/' && oldFolder !== newFolder &&
+        folder.toLowerCase() === oldFolder.toLowerCase() &&
+        !this.app.vault.getAbstractFileByPath(oldFolder)) {
+      return value.endsWith('/') ? `${newFolder}/` : newFolder;
+    }
+
+    return null;
+  }
+}
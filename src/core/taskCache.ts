@@ -1,28 +1,66 @@
-import { App, TFile } from 'obsidian';
+import { App, TFile, Events, EventRef, debounce } from 'obsidian';
 import {
   Task,
   TaskConsolidatorSettings,
   CacheEntry,
+  TaskIndexData,
+  TaskIndexFileEntry,
   CacheStats,
   TaskStats,
   TaskFilterOptions,
+  TaskCacheDiff,
+  IndexProgress,
+  SerializedTask,
   Priority
 } from '../types';
 import { STAGES } from '../types/constants';
-import { parseTasksFromFile, buildTaskHierarchy } from './taskParser';
+import { parseTasksFromFile, getTaskLocations, buildTaskHierarchy, buildTaskId } from './taskParser';
+import { filterTasks, buildFilterQuery } from './taskFilter';
+import { TaskIndex } from './taskIndex';
+import { BackgroundParser } from './backgroundParser';
 import { isOverdue, isDueToday, isDueThisWeek } from '../utils/dateUtils';
-import { escapeRegex } from '../utils/textUtils';
+import { getTaskStatus } from '../utils/statusUtils';
+import { compareNullableStrings } from '../utils/textUtils';
+
+// Bump when the serialized task shape or what the parser picks up changes
+const TASK_INDEX_VERSION = 3;
+
+/** Files read and sent to the parser at a time during a full refresh */
+const PARSE_BATCH_SIZE = 50;
+
+/** How often a full refresh publishes the tasks parsed so far */
+const PARTIAL_RESULTS_INTERVAL_MS = 500;
 
 // ========================================
 // Task Cache Class
 // ========================================
 
-export class TaskCache {
+/**
+ * Parsed tasks for the whole vault. Emits `task-added`, `task-updated` and
+ * `task-removed` for each changed task, then `file-reindexed` with the
+ * file's diff, once the cache already reflects the change. Full refreshes
+ * also emit `index-progress` after each parsed batch.
+ */
+export class TaskCache extends Events {
   private app: App;
   private settings: TaskConsolidatorSettings;
   private cache: Map<string, CacheEntry> = new Map();
   private allTasks: Task[] = [];
+  private recurringTasks: Task[] = [];
+  private seriesIndex: Map<string, Task[]> = new Map();
+  private index = new TaskIndex();
+  private parser = new BackgroundParser();
+  /** Changes already in `cache` but not yet in allTasks and the indexes */
+  private pendingDiffs: Map<string, TaskCacheDiff> = new Map();
+  private needsRebuild = false;
+  private progress: IndexProgress | null = null;
+  private refreshing: Promise<void> | null = null;
+  private queuedRefresh: Promise<void> | null = null;
+  private destroyed = false;
   private isInitialized = false;
+  private indexPath: string | null;
+  private parseKey: string;
+  private requestIndexSave = debounce(() => { void this.saveIndex(); }, 2000, true);
 
   private stats: CacheStats = {
     totalFiles: 0,
@@ -35,22 +73,64 @@ export class TaskCache {
     lastRefresh: 0
   };
 
-  constructor(app: App, settings: TaskConsolidatorSettings) {
+  /**
+   * @param indexPath Where the task index is persisted, or null to keep it in memory only
+   */
+  constructor(app: App, settings: TaskConsolidatorSettings, indexPath: string | null = null) {
+    super();
     this.app = app;
     this.settings = settings;
+    this.indexPath = indexPath;
+    this.parseKey = this.getParseKey(settings);
+  }
+
+  on(name: 'task-added', callback: (task: Task) => unknown, ctx?: unknown): EventRef;
+  on(name: 'task-updated', callback: (task: Task, previous: Task) => unknown, ctx?: unknown): EventRef;
+  on(name: 'task-removed', callback: (task: Task) => unknown, ctx?: unknown): EventRef;
+  on(name: 'file-reindexed', callback: (path: string, diff: TaskCacheDiff) => unknown, ctx?: unknown): EventRef;
+  on(name: 'index-progress', callback: (progress: IndexProgress) => unknown, ctx?: unknown): EventRef;
+  on(name: string, callback: (...data: any[]) => unknown, ctx?: unknown): EventRef {
+    return super.on(name, callback, ctx);
   }
 
   /**
-   * Update settings reference
+   * Call `callback` once changes settle after files are reindexed, for
+   * views that re-render as a whole. Returns a function that unsubscribes.
+   */
+  subscribe(callback: () => unknown, wait: number): () => void {
+    const notify = debounce(() => { void callback(); }, wait, true);
+    const ref = this.on('file-reindexed', () => notify());
+    return () => {
+      notify.cancel();
+      this.offref(ref);
+    };
+  }
+
+  /**
+   * Update settings reference. Cached tasks are marked stale when settings
+   * that change parse results do, so the next refresh re-reads every file.
    */
   updateSettings(settings: TaskConsolidatorSettings): void {
     this.settings = settings;
+
+    const parseKey = this.getParseKey(settings);
+    if (parseKey !== this.parseKey) {
+      this.parseKey = parseKey;
+      for (const entry of this.cache.values()) {
+        entry.lastModified = -1;
+      }
+    }
   }
 
   /**
-   * Initialize the cache by parsing all files
+   * Initialize the cache, starting from the persisted index when enabled
+   * so only files changed since the last session are parsed
    */
   async initialize(): Promise<void> {
+    if (this.settings.enableTaskCache) {
+      await this.loadIndex();
+    }
+
     await this.refreshAll();
     this.isInitialized = true;
   }
@@ -62,6 +142,13 @@ export class TaskCache {
     return this.isInitialized;
   }
 
+  /**
+   * Progress of the full refresh in progress, or null when none is running
+   */
+  get indexProgress(): IndexProgress | null {
+    return this.progress ? { ...this.progress } : null;
+  }
+
   /**
    * Get all cached tasks
    */
@@ -69,6 +156,13 @@ export class TaskCache {
     return this.allTasks;
   }
 
+  /**
+   * Get every cached task, subtasks included
+   */
+  getAllTasksWithSubtasks(): Task[] {
+    return [...this.cache.values()].flatMap(entry => entry.tasks);
+  }
+
   /**
    * Get cache statistics
    */
@@ -92,83 +186,238 @@ export class TaskCache {
   }
 
   /**
-   * Refresh tasks for a specific file
+   * Re-parse one file and patch its tasks into the cache
    */
   async refreshFile(file: TFile): Promise<void> {
     if (!this.shouldParseFile(file)) {
-      this.cache.delete(file.path);
-      this.rebuildAllTasks();
+      this.replaceEntry(file.path, null);
       return;
     }
 
-    const entry: CacheEntry = {
-      tasks: await parseTasksFromFile(this.app, file, this.settings),
-      lastModified: file.stat.mtime
-    };
-
-    this.cache.set(file.path, entry);
-    this.rebuildAllTasks();
-    this.stats.cachedFiles = this.cache.size;
+    const tasks = await parseTasksFromFile(this.app, file, this.settings);
+    this.replaceEntry(file.path, this.createEntry(tasks, file.stat.mtime, file.stat.size));
   }
 
   /**
    * Remove a file from the cache
    */
   removeFile(filePath: string): void {
-    this.cache.delete(filePath);
-    this.rebuildAllTasks();
-    this.stats.cachedFiles = this.cache.size;
+    this.replaceEntry(filePath, null);
   }
 
   /**
    * Handle file rename
    */
-  renameFile(oldPath: string, newPath: string): void {
+  async renameFile(file: TFile, oldPath: string): Promise<void> {
     const entry = this.cache.get(oldPath);
-    if (entry) {
-      this.cache.delete(oldPath);
-      this.cache.set(newPath, entry);
+    this.replaceEntry(oldPath, null);
+
+    if (!entry || !this.shouldParseFile(file)) {
+      await this.refreshFile(file);
+      return;
     }
+
+    // A rename leaves the content alone, so the tasks only get IDs for the new path
+    const tasks = entry.tasks.map(task => ({ ...task, id: buildTaskId(file.path, task.lineNumber, task.blockId) }));
+    this.replaceEntry(file.path, this.createEntry(this.restoreTasks(tasks, file), entry.lastModified, entry.size));
   }
 
   /**
-   * Refresh all files in the vault
+   * Refresh all files in the vault, re-reading only files whose mtime or
+   * size changed since they were cached. A call made while a refresh runs
+   * waits for it and then refreshes again.
    */
-  async refreshAll(): Promise<void> {
-    this.cache.clear();
+  refreshAll(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.runRefresh().finally(() => {
+        this.refreshing = null;
+      });
+      return this.refreshing;
+    }
 
+    if (!this.queuedRefresh) {
+      const rerun = (): Promise<void> => {
+        this.queuedRefresh = null;
+        return this.refreshAll();
+      };
+      this.queuedRefresh = this.refreshing.then(rerun, rerun);
+    }
+    return this.queuedRefresh;
+  }
+
+  /**
+   * Parse stale files off the UI thread in batches, publishing the tasks
+   * parsed so far every PARTIAL_RESULTS_INTERVAL_MS
+   */
+  private async runRefresh(): Promise<void> {
     const files = this.app.vault.getMarkdownFiles();
     this.stats.totalFiles = files.length;
+    const seen = new Set<string>();
+    const stale: TFile[] = [];
 
     for (const file of files) {
       if (!this.shouldParseFile(file)) {
         continue;
       }
+      seen.add(file.path);
 
       // Check if we can use cached version
       const cached = this.cache.get(file.path);
-      if (cached && cached.lastModified === file.stat.mtime) {
+      if (cached && cached.lastModified === file.stat.mtime && cached.size === file.stat.size) {
         this.stats.hits++;
-        continue;
+      } else {
+        this.stats.misses++;
+        stale.push(file);
       }
+    }
 
-      this.stats.misses++;
+    // Drop files that were deleted or are now excluded
+    for (const [path, entry] of this.cache) {
+      if (seen.has(path)) continue;
+      this.cache.delete(path);
+      this.stageChange(path, diffTasks(entry.tasks, []));
+    }
 
-      try {
-        const entry: CacheEntry = {
-          tasks: await parseTasksFromFile(this.app, file, this.settings),
-          lastModified: file.stat.mtime
-        };
+    this.progress = { done: 0, total: stale.length };
+    let lastPublished = Date.now();
+    try {
+      for (let start = 0; start < stale.length && !this.destroyed; start += PARSE_BATCH_SIZE) {
+        if (start > 0 && Date.now() - lastPublished >= PARTIAL_RESULTS_INTERVAL_MS) {
+          this.publishChanges();
+          lastPublished = Date.now();
+        }
+        this.trigger('index-progress', { done: start, total: stale.length });
 
-        this.cache.set(file.path, entry);
-      } catch (error) {
-        console.error(`Task Consolidator: Error parsing file ${file.path}:`, error);
+        await this.parseBatch(stale.slice(start, start + PARSE_BATCH_SIZE));
+        this.progress.done = Math.min(start + PARSE_BATCH_SIZE, stale.length);
+      }
+    } finally {
+      this.progress = null;
+      if (stale.length > 0) {
+        this.trigger('index-progress', { done: stale.length, total: stale.length });
       }
     }
 
-    this.rebuildAllTasks();
     this.stats.cachedFiles = this.cache.size;
     this.stats.lastRefresh = Date.now();
+    this.publishChanges();
+  }
+
+  /**
+   * Read and parse a batch of files. A file that changed, moved or was
+   * deleted while the batch was parsed is left alone; its vault event
+   * refreshes it.
+   */
+  private async parseBatch(files: TFile[]): Promise<void> {
+    const parseKey = this.parseKey;
+    const reads = await Promise.all(files.map(async (file) => {
+      const { mtime, size } = file.stat;
+      const locations = getTaskLocations(this.app, file);
+      try {
+        // Files the metadata cache lists no tasks in aren't read
+        const content = locations?.length === 0 ? '' : await this.app.vault.read(file);
+        return { file, path: file.path, mtime, size, content, locations };
+      } catch (error) {
+        console.error(`Task Consolidator: Error reading file ${file.path}:`, error);
+        return null;
+      }
+    }));
+
+    const sources = reads.filter((read): read is NonNullable<typeof read> => read !== null);
+    const parsed = await this.parser.parse(
+      sources.map(({ path, content, locations }) => ({ path, content, locations })),
+      this.settings.customStages,
+      this.settings.taskStatuses
+    );
+    if (this.destroyed || parseKey !== this.parseKey) return;
+
+    sources.forEach(({ file, path, mtime, size }, i) => {
+      if (file.path !== path || file.stat.mtime !== mtime || this.app.vault.getAbstractFileByPath(path) !== file) {
+        return;
+      }
+
+      const previous = this.cache.get(path);
+      const tasks = this.restoreTasks(parsed[i], file);
+      this.cache.set(path, this.createEntry(tasks, mtime, size));
+      this.stageChange(path, diffTasks(previous?.tasks ?? [], tasks));
+    });
+  }
+
+  /**
+   * Stop background parsing and clear the cache
+   */
+  destroy(): void {
+    this.destroyed = true;
+    this.parser.destroy();
+    this.clear();
+  }
+
+  // ========================================
+  // Persisted Index
+  // ========================================
+
+  /**
+   * Settings that affect parse results; a cached task is only valid for the same key
+   */
+  private getParseKey(settings: TaskConsolidatorSettings): string {
+    return JSON.stringify({ customStages: settings.customStages, taskStatuses: settings.taskStatuses });
+  }
+
+  /**
+   * Seed the cache from the index written in a previous session
+   */
+  private async loadIndex(): Promise<void> {
+    if (!this.indexPath) return;
+
+    try {
+      const adapter = this.app.vault.adapter;
+      if (!(await adapter.exists(this.indexPath))) return;
+
+      const data = JSON.parse(await adapter.read(this.indexPath)) as TaskIndexData;
+      if (data.version !== TASK_INDEX_VERSION || data.parseKey !== this.parseKey) {
+        return;
+      }
+
+      for (const entry of data.files) {
+        const file = this.app.vault.getAbstractFileByPath(entry.path);
+        if (!(file instanceof TFile)) continue;
+
+        this.cache.set(entry.path, this.createEntry(this.restoreTasks(entry.tasks, file), entry.mtime, entry.size));
+        this.needsRebuild = true;
+      }
+
+      if (this.settings.debugMode) {
+        console.log(`Task Consolidator: Loaded task index for ${this.cache.size} files`);
+      }
+    } catch (error) {
+      console.error('Task Consolidator: Error loading task index:', error);
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * Write the cache to disk so the next startup can skip unchanged files
+   */
+  async saveIndex(): Promise<void> {
+    if (!this.indexPath || !this.settings.enableTaskCache) return;
+
+    const files: TaskIndexFileEntry[] = [];
+    for (const [path, entry] of this.cache) {
+      files.push({
+        path,
+        mtime: entry.lastModified,
+        size: entry.size,
+        tasks: entry.tasks.map(({ file, parentId, children, ...task }) => task)
+      });
+    }
+
+    const data: TaskIndexData = { version: TASK_INDEX_VERSION, parseKey: this.parseKey, files };
+
+    try {
+      await this.app.vault.adapter.write(this.indexPath, JSON.stringify(data));
+    } catch (error) {
+      console.error('Task Consolidator: Error saving task index:', error);
+    }
   }
 
   /**
@@ -212,124 +461,269 @@ export class TaskCache {
     return new RegExp(`^${regex}$`).test(path);
   }
 
+  // ========================================
+  // Cache Maintenance
+  // ========================================
+
   /**
-   * Rebuild the allTasks array from cache
+   * Attach a file to tasks that were parsed or stored without one
    */
-  private rebuildAllTasks(): void {
-    const tasks: Task[] = [];
+  private restoreTasks(tasks: SerializedTask[], file: TFile): Task[] {
+    return tasks.map(task => ({ ...task, file, parentId: null, children: [] }));
+  }
+
+  /**
+   * Build a cache entry; the hierarchy is built per file, since subtasks
+   * never cross files
+   */
+  private createEntry(tasks: Task[], lastModified: number, size: number): CacheEntry {
+    return { tasks, roots: buildTaskHierarchy(tasks), lastModified, size };
+  }
+
+  /**
+   * Swap one file's entry (null removes it), patching only that file's
+   * slice of allTasks and the derived indexes
+   */
+  private replaceEntry(path: string, entry: CacheEntry | null): void {
+    // The slice patching below relies on allTasks matching the cache
+    this.publishChanges();
+
+    const previous = this.cache.get(path);
+    if (!previous && !entry) return;
 
-    for (const entry of this.cache.values()) {
-      tasks.push(...entry.tasks);
+    if (previous) {
+      this.unindexTasks(previous.tasks);
+      this.index.remove(previous.roots);
+    }
+    if (entry) {
+      this.cache.set(path, entry);
+      this.indexTasks(entry.tasks);
+      this.index.add(entry.roots);
+    } else {
+      this.cache.delete(path);
     }
 
-    this.allTasks = buildTaskHierarchy(tasks);
+    // allTasks is ordered by path, so the file's roots form one contiguous slice
+    const start = this.findSliceStart(path, false);
+    const end = this.findSliceStart(path, true);
+    this.allTasks.splice(start, end - start, ...(entry?.roots ?? []));
+
     this.stats.totalTasks = this.allTasks.length;
+    this.stats.cachedFiles = this.cache.size;
+    this.requestIndexSave();
+
+    this.emitDiff(path, diffTasks(previous?.tasks ?? [], entry?.tasks ?? []));
   }
 
   /**
-   * Get tasks for a specific file
+   * Note a change made to `cache` directly; publishChanges applies it to
+   * allTasks and the indexes and announces it
    */
-  getTasksForFile(filePath: string): Task[] {
-    const entry = this.cache.get(filePath);
-    return entry?.tasks ?? [];
+  private stageChange(path: string, diff: TaskCacheDiff): void {
+    this.pendingDiffs.set(path, diff);
+    this.needsRebuild = true;
   }
 
   /**
-   * Get filtered tasks based on options
+   * Rebuild from the cache after direct changes and emit their diffs
    */
-  getFilteredTasks(options: TaskFilterOptions): Task[] {
-    let tasks = [...this.allTasks];
+  private publishChanges(): void {
+    if (!this.needsRebuild) return;
 
-    // Filter by completion status
-    if (options.showCompleted === false) {
-      tasks = tasks.filter(t => !t.completed);
-    } else if (options.completed !== undefined) {
-      tasks = tasks.filter(t => t.completed === options.completed);
-    }
+    this.needsRebuild = false;
+    this.rebuildAllTasks();
+    this.requestIndexSave();
 
-    // Filter by owner
-    if (options.owner) {
-      tasks = tasks.filter(t => t.owner === options.owner);
+    const diffs = this.pendingDiffs;
+    this.pendingDiffs = new Map();
+    for (const [path, diff] of diffs) {
+      this.emitDiff(path, diff);
     }
+  }
 
-    // Filter by project
-    if (options.project) {
-      tasks = tasks.filter(t => t.project === options.project);
-    }
+  /**
+   * Announce one file's changes; nothing is emitted when nothing changed
+   */
+  private emitDiff(path: string, diff: TaskCacheDiff): void {
+    if (diff.added.length === 0 && diff.updated.length === 0 && diff.removed.length === 0) return;
 
-    // Filter by stage
-    if (options.stage) {
-      tasks = tasks.filter(t => t.stage === options.stage);
-    }
+    for (const task of diff.removed) this.trigger('task-removed', task);
+    for (const change of diff.updated) this.trigger('task-updated', change.current, change.previous);
+    for (const task of diff.added) this.trigger('task-added', task);
+    this.trigger('file-reindexed', path, diff);
+  }
 
-    // Filter by priority
-    if (options.priority) {
-      tasks = tasks.filter(t => t.priority === options.priority);
+  /**
+   * Binary search for the first root task at (or, with `after`, past) a path
+   */
+  private findSliceStart(path: string, after: boolean): number {
+    let low = 0;
+    let high = this.allTasks.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      const order = this.allTasks[mid].file.path.localeCompare(path);
+      if (order < 0 || (after && order === 0)) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
     }
+    return low;
+  }
 
-    // Filter by tags
-    if (options.tags && options.tags.length > 0) {
-      tasks = tasks.filter(t => options.tags!.every(tag => t.tags.includes(tag)));
+  /**
+   * Rebuild allTasks and the derived indexes from every cache entry
+   */
+  private rebuildAllTasks(): void {
+    const paths = [...this.cache.keys()].sort((a, b) => a.localeCompare(b));
+
+    this.allTasks = [];
+    this.recurringTasks = [];
+    this.seriesIndex = new Map();
+    this.index.clear();
+    for (const path of paths) {
+      const entry = this.cache.get(path)!;
+      this.allTasks.push(...entry.roots);
+      this.indexTasks(entry.tasks);
+      this.index.add(entry.roots);
     }
 
-    // Filter by file path
-    if (options.filePath) {
-      tasks = tasks.filter(t => t.file.path.includes(options.filePath!));
+    this.stats.totalTasks = this.allTasks.length;
+  }
+
+  /**
+   * Add one file's tasks to the derived indexes. Subtasks are included,
+   * since allTasks only holds root tasks.
+   */
+  private indexTasks(tasks: Task[]): void {
+    for (const task of tasks) {
+      if (task.recurrence) this.recurringTasks.push(task);
+      if (task.seriesId) {
+        const series = this.seriesIndex.get(task.seriesId) ?? [];
+        series.push(task);
+        this.seriesIndex.set(task.seriesId, series);
+      }
     }
+  }
 
-    // Filter by search text
-    const searchText = options.searchText || options.search;
-    if (searchText) {
-      const escaped = escapeRegex(searchText);
-      const regex = new RegExp(escaped, 'i');
-      tasks = tasks.filter(t =>
-        regex.test(t.text) ||
-        (t.owner && regex.test(t.owner)) ||
-        (t.project && regex.test(t.project))
-      );
+  /**
+   * Remove one file's tasks from the derived indexes
+   */
+  private unindexTasks(tasks: Task[]): void {
+    const removed = new Set(tasks);
+    if (tasks.some(task => task.recurrence)) {
+      this.recurringTasks = this.recurringTasks.filter(task => !removed.has(task));
     }
 
-    // Filter by due date preset
-    if (options.dueDateFilter) {
-      switch (options.dueDateFilter) {
-        case 'today':
-          tasks = tasks.filter(t => isDueToday(t.dueDate));
-          break;
-        case 'thisWeek':
-          tasks = tasks.filter(t => isDueThisWeek(t.dueDate, this.settings.firstDayOfWeek));
-          break;
-        case 'overdue':
-          tasks = tasks.filter(t => isOverdue(t.dueDate));
-          break;
-        case 'noDueDate':
-          tasks = tasks.filter(t => !t.dueDate);
-          break;
+    for (const task of tasks) {
+      if (!task.seriesId) continue;
+      const series = (this.seriesIndex.get(task.seriesId) ?? []).filter(other => !removed.has(other));
+      if (series.length > 0) {
+        this.seriesIndex.set(task.seriesId, series);
+      } else {
+        this.seriesIndex.delete(task.seriesId);
       }
     }
+  }
 
-    // Filter by due date range
-    if (options.dueDateRange) {
-      tasks = tasks.filter(t => {
-        if (!t.dueDate) return false;
-        return t.dueDate >= options.dueDateRange!.start &&
-               t.dueDate <= options.dueDateRange!.end;
-      });
+  /**
+   * Get every recurring task, subtasks included
+   */
+  getRecurringTasks(): Task[] {
+    return this.recurringTasks;
+  }
+
+  /**
+   * Get the latest instance of each recurring series that is still open
+   * and has a due date; later occurrences are projected from it
+   */
+  getSeriesHeads(): Task[] {
+    const heads = new Map<string, Task>();
+    for (const task of this.recurringTasks) {
+      const key = task.seriesId ?? task.id;
+      const current = heads.get(key);
+      if (!current || (task.dueDate ?? '') > (current.dueDate ?? '')) {
+        heads.set(key, task);
+      }
     }
 
-    // Filter by specific due date
-    if (options.dueDate) {
-      tasks = tasks.filter(t => t.dueDate === options.dueDate);
+    return [...heads.values()].filter(task => !task.completed && task.dueDate !== null);
+  }
+
+  /**
+   * Get the instances of a recurring series, earliest due date first
+   */
+  getSeriesTasks(seriesId: string): Task[] {
+    const series = this.seriesIndex.get(seriesId) ?? [];
+    return [...series].sort((a, b) => compareNullableStrings(a.dueDate, b.dueDate));
+  }
+
+  /**
+   * Whether a task is an occurrence created ahead of time: an open instance
+   * of a series that still has an open instance due earlier
+   */
+  isUpcomingOccurrence(task: Task): boolean {
+    if (!task.seriesId || task.completed || !task.dueDate) return false;
+
+    const series = this.seriesIndex.get(task.seriesId) ?? [];
+    return series.some(other =>
+      other !== task && !other.completed && other.dueDate !== null && other.dueDate < task.dueDate!
+    );
+  }
+
+  /**
+   * Get tasks for a specific file
+   */
+  getTasksForFile(filePath: string): Task[] {
+    const entry = this.cache.get(filePath);
+    return entry?.tasks ?? [];
+  }
+
+  /**
+   * Get filtered tasks based on options. Indexed terms narrow the tasks
+   * scanned; results keep the order of getAllTasks.
+   */
+  getFilteredTasks(options: TaskFilterOptions): Task[] {
+    const context = {
+      firstDayOfWeek: this.settings.firstDayOfWeek,
+      taskStatuses: this.settings.taskStatuses
+    };
+
+    // Re-ordering a large candidate set costs more than scanning everything
+    const query = buildFilterQuery(options);
+    const candidates = query ? this.index.findCandidates(query, context, this.allTasks.length / 4) : null;
+
+    return filterTasks(candidates ? this.orderTasks(candidates) : this.allTasks, options, context);
+  }
+
+  /**
+   * Put tasks in getAllTasks order: by file path, then line
+   */
+  private orderTasks(tasks: Set<Task>): Task[] {
+    const byFile = new Map<string, Task[]>();
+    for (const task of tasks) {
+      const fileTasks = byFile.get(task.file.path);
+      if (fileTasks) fileTasks.push(task);
+      else byFile.set(task.file.path, [task]);
     }
 
-    return tasks;
+    return [...byFile.keys()]
+      .sort((a, b) => a.localeCompare(b))
+      .flatMap(path => byFile.get(path)!.sort((a, b) => a.lineNumber - b.lineNumber));
   }
 
   /**
    * Clear the cache
    */
   clear(): void {
+    this.requestIndexSave.cancel();
     this.cache.clear();
+    this.pendingDiffs.clear();
+    this.needsRebuild = false;
     this.allTasks = [];
+    this.recurringTasks = [];
+    this.seriesIndex.clear();
+    this.index.clear();
     this.stats = {
       totalFiles: 0,
       cachedFiles: 0,
@@ -363,6 +757,7 @@ export class TaskCache {
         Completed: 0,
         unassigned: 0
       },
+      byStatus: {},
       byOwner: {},
       byProject: {},
       byPriority: { high: 0, medium: 0, low: 0 }
@@ -392,6 +787,10 @@ export class TaskCache {
         stats.byStage.unassigned++;
       }
 
+      // Count by checkbox status
+      const status = getTaskStatus(task.status, this.settings.taskStatuses).name;
+      stats.byStatus[status] = (stats.byStatus[status] ?? 0) + 1;
+
       // Count by owner
       if (task.owner) {
         stats.byOwner[task.owner] = (stats.byOwner[task.owner] ?? 0) + 1;
@@ -415,51 +814,55 @@ export class TaskCache {
    * Get unique owner values
    */
   getUniqueOwners(): string[] {
-    const owners = new Set<string>();
-    for (const task of this.allTasks) {
-      if (task.owner) {
-        owners.add(task.owner);
-      }
-    }
-    return [...owners].sort();
+    return this.index.getValues('owner');
   }
 
   /**
    * Get unique project values
    */
   getUniqueProjects(): string[] {
-    const projects = new Set<string>();
-    for (const task of this.allTasks) {
-      if (task.project) {
-        projects.add(task.project);
-      }
-    }
-    return [...projects].sort();
+    return this.index.getValues('project');
   }
 
   /**
    * Get unique due dates
    */
   getUniqueDueDates(): string[] {
-    const dates = new Set<string>();
-    for (const task of this.allTasks) {
-      if (task.dueDate) {
-        dates.add(task.dueDate);
-      }
-    }
-    return [...dates].sort();
+    return this.index.getValues('due');
   }
 
   /**
    * Get unique tags
    */
   getUniqueTags(): string[] {
-    const tags = new Set<string>();
-    for (const task of this.allTasks) {
-      for (const tag of task.tags) {
-        tags.add(tag);
+    return this.index.getValues('tag');
+  }
+}
+
+// ========================================
+// Diffing
+// ========================================
+
+/**
+ * Compare two parses of the same file by task ID. A task counts as updated
+ * when its line text or position changed.
+ */
+export function diffTasks(previous: Task[], current: Task[]): TaskCacheDiff {
+  const before = new Map(previous.map(task => [task.id, task]));
+  const diff: TaskCacheDiff = { added: [], updated: [], removed: [] };
+
+  for (const task of current) {
+    const old = before.get(task.id);
+    if (!old) {
+      diff.added.push(task);
+    } else {
+      before.delete(task.id);
+      if (old.rawLine !== task.rawLine || old.lineNumber !== task.lineNumber) {
+        diff.updated.push({ previous: old, current: task });
       }
     }
-    return [...tags].sort();
   }
+  diff.removed.push(...before.values());
+
+  return diff;
 }
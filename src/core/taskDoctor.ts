@@ -0,0 +1,328 @@
+import { BulkOperationResult, Task, TaskConsolidatorSettings, TaskUpdateResult, UndoGroup } from '../types';
+import { PATTERNS, STAGES, VALIDATION_LIMITS } from '../types/constants';
+import { validateDate, validateOwner, validateStage } from '../utils/validation';
+import { sanitizeOwner } from '../utils/textUtils';
+import { buildShortIdMap, detectCircularDependency, expandShortTaskId } from '../utils/dependencyUtils';
+import { TaskCache } from './taskCache';
+import { TaskUpdater } from './taskUpdater';
+import { readWrittenFields, WrittenField } from './taskLineWriter';
+import { TaskTokenKind } from './taskTokenizer';
+
+// ========================================
+// Task Doctor
+// ========================================
+
+export type TaskProblemKind =
+  | 'invalid-date'
+  | 'unknown-stage'
+  | 'rejected-owner'
+  | 'unresolved-dependency'
+  | 'dependency-cycle';
+
+/**
+ * One edit of a fix: rewrite or remove a written field, or drop a
+ * dependency ID
+ */
+export type TaskFixEdit =
+  | { type: 'field'; task: Task; field: WrittenField; value: string | null }
+  | { type: 'dependency'; task: Task; dependency: 'blockedBy' | 'blocks'; id: string };
+
+export interface TaskProblemFix {
+  label: string;
+  /** Usually one edit; breaking a cycle may touch both tasks of a link */
+  edits: TaskFixEdit[];
+}
+
+export interface TaskProblem {
+  kind: TaskProblemKind;
+  task: Task;
+  message: string;
+  /** Null when the problem needs a person to decide */
+  fix: TaskProblemFix | null;
+}
+
+const DATE_LABELS: Partial<Record<TaskTokenKind, string>> = {
+  dueDate: 'Due date',
+  scheduledDate: 'Scheduled date',
+  startDate: 'Start date',
+  completedDate: 'Completion date',
+  createdDate: 'Created date'
+};
+
+/**
+ * Finds what the parser silently drops or misreads: dates that don't
+ * exist, stages that aren't configured, owners read as the project,
+ * dependency IDs that point nowhere and tasks that block each other in a
+ * cycle. Fixes go through TaskUpdater, so each one can be undone.
+ */
+export class TaskDoctor {
+  private settings: TaskConsolidatorSettings;
+  private taskCache: TaskCache;
+  private taskUpdater: TaskUpdater;
+
+  constructor(settings: TaskConsolidatorSettings, taskCache: TaskCache, taskUpdater: TaskUpdater) {
+    this.settings = settings;
+    this.taskCache = taskCache;
+    this.taskUpdater = taskUpdater;
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(settings: TaskConsolidatorSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Check every cached task, subtasks included. Problems are sorted by
+   * file and line.
+   */
+  check(): TaskProblem[] {
+    const allTasks = this.taskCache.getAllTasksWithSubtasks();
+    const problems: TaskProblem[] = [];
+
+    for (const task of allTasks) {
+      problems.push(...this.checkFields(task));
+    }
+    problems.push(...this.checkDependencies(allTasks));
+
+    return problems.sort((a, b) =>
+      a.task.file.path.localeCompare(b.task.file.path) || a.task.lineNumber - b.task.lineNumber
+    );
+  }
+
+  /**
+   * Apply the fix of one problem as a single undo step
+   */
+  async fix(problem: TaskProblem): Promise<TaskUpdateResult> {
+    if (!problem.fix) {
+      return { success: false, error: 'This problem has no automatic fix' };
+    }
+
+    const fix = problem.fix;
+    return this.taskUpdater.recordUndoGroup(`Fix "${problem.task.text}"`, group =>
+      this.applyFix(fix, new Map(), group)
+    );
+  }
+
+  /**
+   * Apply the fixes of several problems as a single undo step. Problems
+   * without a fix are left out of the counts.
+   */
+  async fixAll(problems: TaskProblem[]): Promise<BulkOperationResult> {
+    const result: BulkOperationResult = { successful: 0, failed: 0, errors: [] };
+    const fixable = problems.filter(p => p.fix);
+    if (fixable.length === 0) return result;
+
+    // Several fixes may edit the same line; each starts from the last result
+    const latest = new Map<string, Task>();
+
+    await this.taskUpdater.recordUndoGroup(`Fix ${fixable.length} task problems`, async (group) => {
+      for (const problem of fixable) {
+        const fixed = await this.applyFix(problem.fix!, latest, group);
+        if (fixed.success) {
+          result.successful++;
+        } else {
+          result.failed++;
+          result.errors.push(`${problem.task.text}: ${fixed.error}`);
+        }
+      }
+    });
+
+    if (this.settings.debugMode) {
+      console.log('Task Consolidator: Fixed task problems', result);
+    }
+    return result;
+  }
+
+  private async applyFix(
+    fix: TaskProblemFix,
+    latest: Map<string, Task>,
+    group: UndoGroup
+  ): Promise<TaskUpdateResult> {
+    let result: TaskUpdateResult = { success: true };
+
+    for (const edit of fix.edits) {
+      const task = latest.get(edit.task.id) ?? edit.task;
+      result = edit.type === 'field'
+        ? await this.taskUpdater.replaceTaskField(task, edit.field, edit.value, group)
+        : await this.taskUpdater.removeDependency(task, edit.dependency, edit.id, group);
+
+      if (!result.success) return result;
+      if (result.task) latest.set(edit.task.id, result.task);
+    }
+
+    return result;
+  }
+
+  // ========================================
+  // Field Checks
+  // ========================================
+
+  /**
+   * Check the fields written on a task's line
+   */
+  private checkFields(task: Task): TaskProblem[] {
+    const problems: TaskProblem[] = [];
+    const customStages = this.settings.customStages;
+    const fields = readWrittenFields(task.rawLine, customStages);
+    const blockParts = fields.filter(f => f.kind === 'metadata').length;
+    let ownerChecked = false;
+
+    for (const field of fields) {
+      const dateLabel = DATE_LABELS[field.kind];
+      if (dateLabel) {
+        if (!validateDate(field.value).isValid) {
+          problems.push(this.invalidDate(task, field, dateLabel, field.value));
+        }
+        continue;
+      }
+
+      if (field.kind === 'stage') {
+        if (!validateStage(field.value, customStages).isValid) {
+          problems.push(this.unknownStage(task, field));
+        }
+        continue;
+      }
+
+      if (field.kind !== 'metadata') continue;
+
+      const dateMatch = field.value.match(PATTERNS.DATE_WITH_PREFIX);
+      if (dateMatch) {
+        if (!validateDate(dateMatch[1]).isValid) {
+          problems.push(this.invalidDate(task, field, 'Due date', dateMatch[1]));
+        }
+        continue;
+      }
+
+      // A lone block value is always read as something; only lists have
+      // an owner slot that the first name-like part should fill
+      if (blockParts < 2 || ownerChecked) continue;
+      if (field.readAs !== null && field.readAs !== 'owner' && field.readAs !== 'project') continue;
+
+      ownerChecked = true;
+      if (field.readAs !== 'owner') {
+        problems.push(this.rejectedOwner(task, field));
+      }
+    }
+
+    return problems;
+  }
+
+  private invalidDate(task: Task, field: WrittenField, label: string, value: string): TaskProblem {
+    return {
+      kind: 'invalid-date',
+      task,
+      message: `${label} "${value}" is not a valid date`,
+      fix: { label: 'Remove date', edits: [{ type: 'field', task, field, value: null }] }
+    };
+  }
+
+  private unknownStage(task: Task, field: WrittenField): TaskProblem {
+    // Often only the case or separators differ from a configured stage
+    const normalize = (stage: string) => stage.toLowerCase().replace(/[\s_-]+/g, '-');
+    const known = [...STAGES, ...this.settings.customStages]
+      .find(stage => normalize(stage) === normalize(field.value));
+
+    return {
+      kind: 'unknown-stage',
+      task,
+      message: `Stage "${field.value}" is not one of the configured stages`,
+      fix: known
+        ? { label: `Change to "${known}"`, edits: [{ type: 'field', task, field, value: known }] }
+        : { label: 'Remove stage', edits: [{ type: 'field', task, field, value: null }] }
+    };
+  }
+
+  private rejectedOwner(task: Task, field: WrittenField): TaskProblem {
+    const error = validateOwner(field.value).error ?? 'Owner name is not valid';
+    // Only stray characters are dropped; cutting a long name short would lose it
+    const sanitized = field.value.length <= VALIDATION_LIMITS.MAX_OWNER_LENGTH ? sanitizeOwner(field.value) : null;
+    const canRename = sanitized !== null && sanitized !== field.value && validateOwner(sanitized).isValid;
+
+    return {
+      kind: 'rejected-owner',
+      task,
+      message: field.readAs === 'project'
+        ? `Owner "${field.value}" was read as the project. ${error}`
+        : `Owner "${field.value}" is ignored. ${error}`,
+      fix: canRename
+        ? { label: `Change to "${sanitized}"`, edits: [{ type: 'field', task, field, value: sanitized }] }
+        : null
+    };
+  }
+
+  // ========================================
+  // Dependency Checks
+  // ========================================
+
+  /**
+   * Find dependency IDs that resolve to no task, and cycles of tasks
+   * blocking each other
+   */
+  private checkDependencies(allTasks: Task[]): TaskProblem[] {
+    const problems: TaskProblem[] = [];
+    const idMap = buildShortIdMap(allTasks);
+    const taskMap = new Map(allTasks.map(t => [t.id, t]));
+    const resolve = (ref: string): Task | null => {
+      const id = idMap.get(ref) ?? expandShortTaskId(ref, allTasks);
+      return id ? taskMap.get(id) ?? null : null;
+    };
+
+    const linked = allTasks.filter(t => t.blockedBy.length > 0 || t.blocks.length > 0);
+
+    for (const task of linked) {
+      for (const dependency of ['blockedBy', 'blocks'] as const) {
+        for (const id of task[dependency]) {
+          if (resolve(id)) continue;
+
+          problems.push({
+            kind: 'unresolved-dependency',
+            task,
+            message: `${dependency === 'blockedBy' ? 'Blocked by' : 'Blocks'} "${id}", which matches no task`,
+            fix: { label: 'Remove link', edits: [{ type: 'dependency', task, dependency, id }] }
+          });
+        }
+      }
+    }
+
+    // Every task in a cycle has a link of its own, so starting from
+    // linked tasks finds them all; each cycle is reported once
+    const reported = new Set<string>();
+    for (const task of linked) {
+      if (reported.has(task.id)) continue;
+
+      const cycle = detectCircularDependency(task, allTasks, new Set(), [], idMap);
+      if (!cycle) continue;
+
+      const members = cycle.slice(0, -1);
+      if (members.some(id => reported.has(id))) continue;
+      members.forEach(id => reported.add(id));
+
+      const from = taskMap.get(cycle[0]);
+      const to = taskMap.get(cycle[1]);
+      if (!from || !to) continue;
+
+      // The link may be written on either task, or on both
+      const edits: TaskFixEdit[] = [
+        ...from.blocks
+          .filter(id => resolve(id) === to)
+          .map(id => ({ type: 'dependency' as const, task: from, dependency: 'blocks' as const, id })),
+        ...to.blockedBy
+          .filter(id => resolve(id) === from)
+          .map(id => ({ type: 'dependency' as const, task: to, dependency: 'blockedBy' as const, id }))
+      ];
+
+      problems.push({
+        kind: 'dependency-cycle',
+        task: from,
+        message: `Tasks block each other in a cycle: ${cycle.map(id => `"${taskMap.get(id)?.text ?? id}"`).join(' → ')}`,
+        fix: edits.length > 0
+          ? { label: `Unblock "${to.text}"`, edits }
+          : null
+      });
+    }
+
+    return problems;
+  }
+}
@@ -0,0 +1,139 @@
+import { Task, TaskConsolidatorSettings, TaskFilterOptions, QueryNode, Priority } from '../types';
+import { PRIORITIES } from '../types/constants';
+import { formatDateToISO, getToday } from '../utils/dateUtils';
+import { evaluateQuery, QueryContext } from '../utils/queryEvaluator';
+import { parseQuery, QueryParseError } from '../utils/searchParser';
+
+// ========================================
+// Task Filter Engine
+// ========================================
+
+/**
+ * Filter tasks with the same semantics everywhere: the structured options
+ * are translated into a query and evaluated together with `options.query`.
+ */
+export function filterTasks(tasks: Task[], options: TaskFilterOptions, context: QueryContext): Task[] {
+  const query = buildFilterQuery(options);
+  if (!query) return [...tasks];
+  return tasks.filter(task => evaluateQuery(query, task, context));
+}
+
+/**
+ * Translate filter options into a single query AST, or null when nothing filters
+ */
+export function buildFilterQuery(options: TaskFilterOptions): QueryNode | null {
+  const children: QueryNode[] = [];
+
+  if (options.showCompleted === false) {
+    children.push({ type: 'compare', field: 'is', operator: ':', value: 'open' });
+  } else if (options.completed !== undefined) {
+    children.push({ type: 'compare', field: 'is', operator: ':', value: options.completed ? 'done' : 'open' });
+  }
+
+  if (options.owner) {
+    children.push({ type: 'compare', field: 'owner', operator: '=', value: options.owner });
+  }
+  if (options.project) {
+    children.push({ type: 'compare', field: 'project', operator: '=', value: options.project });
+  }
+  if (options.stage) {
+    children.push({ type: 'compare', field: 'stage', operator: '=', value: options.stage });
+  }
+  if (options.priority) {
+    children.push({ type: 'compare', field: 'priority', operator: '=', value: options.priority });
+  }
+  for (const tag of options.tags ?? []) {
+    children.push({ type: 'compare', field: 'tag', operator: ':', value: tag.toLowerCase().replace(/^#/, '') });
+  }
+  if (options.filePath) {
+    children.push({ type: 'compare', field: 'file', operator: ':', value: options.filePath });
+  }
+
+  const searchText = options.searchText || options.search;
+  if (searchText) {
+    children.push({ type: 'text', value: searchText });
+  }
+
+  switch (options.dueDateFilter) {
+    case 'today':
+      children.push({ type: 'compare', field: 'due', operator: '=', value: formatDateToISO(getToday()) });
+      break;
+    case 'thisWeek':
+      children.push({ type: 'compare', field: 'due', operator: ':', value: 'thisweek' });
+      break;
+    case 'overdue':
+      children.push({ type: 'compare', field: 'due', operator: ':', value: 'overdue' });
+      break;
+    case 'noDueDate':
+      children.push({ type: 'compare', field: 'due', operator: ':', value: 'none' });
+      break;
+  }
+
+  if (options.dueDateRange) {
+    children.push({ type: 'compare', field: 'due', operator: '>=', value: options.dueDateRange.start });
+    children.push({ type: 'compare', field: 'due', operator: '<=', value: options.dueDateRange.end });
+  }
+  if (options.dueDate) {
+    children.push({ type: 'compare', field: 'due', operator: '=', value: options.dueDate });
+  }
+
+  if (options.query) {
+    children.push(options.query);
+  }
+
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type: 'and', children };
+}
+
+// ========================================
+// View Filters
+// ========================================
+
+export interface ViewFilter {
+  options: TaskFilterOptions;
+  /** Set when the search query is invalid; the query is then ignored */
+  error: QueryParseError | null;
+}
+
+/**
+ * Build the filter options for the panel's current search and dropdowns,
+ * so every view filters the way the panel does
+ */
+export function getViewFilter(settings: TaskConsolidatorSettings): ViewFilter {
+  const options: TaskFilterOptions = {
+    owner: settings.filterOwner || undefined,
+    project: settings.filterProject || undefined,
+    stage: settings.filterStage || undefined,
+    priority: PRIORITIES.includes(settings.filterPriority as Priority)
+      ? settings.filterPriority as Priority
+      : undefined,
+    tags: settings.filterTags.length > 0 ? settings.filterTags : undefined
+  };
+
+  if (settings.filterDueDate === 'today' || settings.filterDueDate === 'overdue') {
+    options.dueDateFilter = settings.filterDueDate;
+  } else if (settings.filterDueDate) {
+    options.dueDate = settings.filterDueDate;
+  }
+
+  let error: QueryParseError | null = null;
+  try {
+    options.query = parseQuery(settings.searchQuery);
+  } catch (e) {
+    if (!(e instanceof QueryParseError)) throw e;
+    error = e;
+  }
+
+  return { options, error };
+}
+
+/**
+ * Whether the panel currently filters anything
+ */
+export function hasViewFilter(settings: TaskConsolidatorSettings): boolean {
+  return Boolean(
+    settings.searchQuery.trim() || settings.filterOwner || settings.filterProject ||
+    settings.filterStage || settings.filterPriority || settings.filterDueDate ||
+    settings.filterTags.length > 0
+  );
+}
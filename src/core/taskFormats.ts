@@ -0,0 +1,210 @@
+import { TaskFormat, Priority } from '../types';
+import { PATTERNS, EMOJI_PATTERNS, DATAVIEW_PATTERNS } from '../types/constants';
+import type { TaskToken, TaskTokenKind } from './taskTokenizer';
+
+// ========================================
+// Format Adapter Interface
+// ========================================
+
+export interface TaskFieldMatcher {
+  kind: TaskTokenKind;
+  pattern: RegExp;
+}
+
+/**
+ * Describes how one task syntax reads and writes inline fields
+ */
+export interface TaskFormatAdapter {
+  id: TaskFormat;
+  name: string;
+  matchers: TaskFieldMatcher[];
+  /** Normalise a captured value, e.g. a priority emoji to 'high' */
+  readValue(kind: TaskTokenKind, raw: string): string;
+  /** Render a field, or null when the format has no syntax for it */
+  writeField(kind: TaskTokenKind, value: string): string | null;
+  /** Render a new value for an existing field, keeping its spelling where possible */
+  replaceField(existing: string, kind: TaskTokenKind, value: string): string | null;
+}
+
+// ========================================
+// Default Format
+// ========================================
+
+const defaultFormat: TaskFormatAdapter = {
+  id: 'default',
+  name: 'Default ([priority:high] [done:...])',
+  matchers: [
+    { kind: 'completedDate', pattern: PATTERNS.COMPLETED_DATE },
+    { kind: 'createdDate', pattern: PATTERNS.CREATED_DATE },
+    { kind: 'priority', pattern: PATTERNS.PRIORITY },
+    { kind: 'recurrence', pattern: PATTERNS.RECURRENCE },
+    { kind: 'blockedBy', pattern: PATTERNS.BLOCKED_BY },
+    { kind: 'blocks', pattern: PATTERNS.BLOCKS },
+    { kind: 'estimate', pattern: PATTERNS.ESTIMATE },
+    { kind: 'timeLogged', pattern: PATTERNS.TIME_LOGGED },
+    { kind: 'tag', pattern: PATTERNS.TAGS },
+    { kind: 'seriesId', pattern: PATTERNS.SERIES_ID },
+    { kind: 'blockId', pattern: PATTERNS.BLOCK_ID }
+  ],
+
+  readValue(kind, raw) {
+    return kind === 'priority' ? raw.toLowerCase() : raw;
+  },
+
+  writeField(kind, value) {
+    switch (kind) {
+      case 'completedDate': return `[done:${value}]`;
+      case 'createdDate': return `[created:${value}]`;
+      case 'priority': return `[priority:${value}]`;
+      case 'recurrence': return `[repeat:${value}]`;
+      case 'blockedBy': return `[blocked-by:${value}]`;
+      case 'blocks': return `[blocks:${value}]`;
+      case 'estimate': return `[estimate:${value}]`;
+      case 'timeLogged': return `[logged:${value}]`;
+      case 'tag': return `#${value}`;
+      case 'seriesId': return `[series:${value}]`;
+      case 'blockId': return `^${value}`;
+      default: return null;
+    }
+  },
+
+  replaceField(_existing, kind, value) {
+    return this.writeField(kind, value);
+  }
+};
+
+// ========================================
+// Emoji Format (Obsidian Tasks)
+// ========================================
+
+const EMOJI_PRIORITIES: Record<string, Priority> = {
+  '🔺': 'high',
+  '⏫': 'high',
+  '🔼': 'medium',
+  '🔽': 'low',
+  '⏬': 'low'
+};
+
+const PRIORITY_EMOJIS: Record<Priority, string> = {
+  high: '⏫',
+  medium: '🔼',
+  low: '🔽'
+};
+
+const emojiFormat: TaskFormatAdapter = {
+  id: 'emoji',
+  name: 'Obsidian Tasks emoji (⏫ 📅 ✅)',
+  matchers: [
+    { kind: 'completedDate', pattern: EMOJI_PATTERNS.COMPLETED_DATE },
+    { kind: 'createdDate', pattern: EMOJI_PATTERNS.CREATED_DATE },
+    { kind: 'dueDate', pattern: EMOJI_PATTERNS.DUE_DATE },
+    { kind: 'scheduledDate', pattern: EMOJI_PATTERNS.SCHEDULED_DATE },
+    { kind: 'startDate', pattern: EMOJI_PATTERNS.START_DATE },
+    { kind: 'priority', pattern: EMOJI_PATTERNS.PRIORITY },
+    { kind: 'recurrence', pattern: EMOJI_PATTERNS.RECURRENCE }
+  ],
+
+  readValue(kind, raw) {
+    return kind === 'priority' ? (EMOJI_PRIORITIES[raw] ?? raw) : raw;
+  },
+
+  writeField(kind, value) {
+    switch (kind) {
+      case 'completedDate': return `✅ ${value}`;
+      case 'createdDate': return `➕ ${value}`;
+      case 'dueDate': return `📅 ${value}`;
+      case 'scheduledDate': return `⏳ ${value}`;
+      case 'startDate': return `🛫 ${value}`;
+      case 'priority': return PRIORITY_EMOJIS[value as Priority] ?? null;
+      case 'recurrence': return `🔁 ${value}`;
+      case 'tag': return `#${value}`;
+      case 'blockId': return `^${value}`;
+      default: return null;
+    }
+  },
+
+  replaceField(_existing, kind, value) {
+    return this.writeField(kind, value);
+  }
+};
+
+// ========================================
+// Dataview Format
+// ========================================
+
+const DATAVIEW_KEYS: Partial<Record<TaskTokenKind, string>> = {
+  dueDate: 'due',
+  scheduledDate: 'scheduled',
+  startDate: 'start',
+  completedDate: 'completion',
+  createdDate: 'created',
+  priority: 'priority',
+  recurrence: 'repeat',
+  owner: 'owner',
+  project: 'project',
+  stage: 'stage',
+  seriesId: 'series'
+};
+
+const dataviewFormat: TaskFormatAdapter = {
+  id: 'dataview',
+  name: 'Dataview inline fields ([due:: ...])',
+  matchers: [
+    { kind: 'completedDate', pattern: DATAVIEW_PATTERNS.COMPLETED_DATE },
+    { kind: 'createdDate', pattern: DATAVIEW_PATTERNS.CREATED_DATE },
+    { kind: 'dueDate', pattern: DATAVIEW_PATTERNS.DUE_DATE },
+    { kind: 'scheduledDate', pattern: DATAVIEW_PATTERNS.SCHEDULED_DATE },
+    { kind: 'startDate', pattern: DATAVIEW_PATTERNS.START_DATE },
+    { kind: 'priority', pattern: DATAVIEW_PATTERNS.PRIORITY },
+    { kind: 'recurrence', pattern: DATAVIEW_PATTERNS.RECURRENCE },
+    { kind: 'owner', pattern: DATAVIEW_PATTERNS.OWNER },
+    { kind: 'project', pattern: DATAVIEW_PATTERNS.PROJECT },
+    { kind: 'stage', pattern: DATAVIEW_PATTERNS.STAGE },
+    { kind: 'seriesId', pattern: DATAVIEW_PATTERNS.SERIES_ID }
+  ],
+
+  readValue(kind, raw) {
+    if (kind !== 'priority') return raw;
+
+    // Obsidian Tasks also writes highest/lowest in Dataview fields
+    const lower = raw.toLowerCase();
+    if (lower === 'highest') return 'high';
+    if (lower === 'lowest') return 'low';
+    return lower;
+  },
+
+  writeField(kind, value) {
+    if (kind === 'tag') return `#${value}`;
+    if (kind === 'blockId') return `^${value}`;
+    const key = DATAVIEW_KEYS[kind];
+    return key ? `[${key}:: ${value}]` : null;
+  },
+
+  replaceField(existing, kind, value) {
+    // Keep the bracket style and key spelling, replace only the value
+    const match = existing.match(/^([[(][^:]+::\s*)[^\])]*?(\s*[\])])$/);
+    return match ? `${match[1]}${value}${match[2]}` : this.writeField(kind, value);
+  }
+};
+
+// ========================================
+// Registry
+// ========================================
+
+export const TASK_FORMAT_ADAPTERS: TaskFormatAdapter[] = [defaultFormat, emojiFormat, dataviewFormat];
+
+/**
+ * Get the adapter for a format, falling back to the default format
+ */
+export function getTaskFormat(id: TaskFormat): TaskFormatAdapter {
+  return TASK_FORMAT_ADAPTERS.find(f => f.id === id) ?? defaultFormat;
+}
+
+/**
+ * Detect which format a task line is written in from its tokens.
+ * Tags and block IDs are shared by every format and don't count.
+ */
+export function detectTaskFormat(tokens: TaskToken[]): TaskFormat {
+  const token = tokens.find(t => t.format !== 'default' && t.kind !== 'tag');
+  return token ? token.format : 'default';
+}
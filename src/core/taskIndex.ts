@@ -0,0 +1,195 @@
+import { Task, QueryNode } from '../types';
+import { matchesDate, QueryContext } from '../utils/queryEvaluator';
+
+// ========================================
+// Secondary Task Indexes
+// ========================================
+
+export type IndexedField = 'owner' | 'project' | 'stage' | 'tag' | 'due';
+
+/**
+ * Tasks by the lowercased value of one field, plus each value as written
+ * with the number of tasks using it
+ */
+class FieldIndex {
+  private postings: Map<string, Set<Task>> = new Map();
+  private values: Map<string, number> = new Map();
+
+  add(value: string, task: Task): void {
+    const key = value.toLowerCase();
+    const tasks = this.postings.get(key) ?? new Set<Task>();
+    tasks.add(task);
+    this.postings.set(key, tasks);
+    this.values.set(value, (this.values.get(value) ?? 0) + 1);
+  }
+
+  remove(value: string, task: Task): void {
+    const key = value.toLowerCase();
+    const tasks = this.postings.get(key);
+    if (tasks?.delete(task) && tasks.size === 0) {
+      this.postings.delete(key);
+    }
+
+    const count = (this.values.get(value) ?? 0) - 1;
+    if (count > 0) {
+      this.values.set(value, count);
+    } else {
+      this.values.delete(value);
+    }
+  }
+
+  get(value: string): Set<Task> | undefined {
+    return this.postings.get(value.toLowerCase());
+  }
+
+  /**
+   * The buckets whose key passes `predicate`
+   */
+  collect(predicate: (key: string) => boolean): Set<Task>[] {
+    return [...this.postings].filter(([key]) => predicate(key)).map(([, tasks]) => tasks);
+  }
+
+  getValues(): string[] {
+    return [...this.values.keys()].sort();
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.values.clear();
+  }
+}
+
+/**
+ * Indexes over the cache's root tasks by owner, project, stage, tag, due
+ * date and file. Queries use them to pick a candidate set before the full
+ * filter runs, so results are the same as a linear scan.
+ */
+export class TaskIndex {
+  private fields: Record<IndexedField, FieldIndex> = {
+    owner: new FieldIndex(),
+    project: new FieldIndex(),
+    stage: new FieldIndex(),
+    tag: new FieldIndex(),
+    due: new FieldIndex()
+  };
+  private withoutDueDate: Set<Task> = new Set();
+  private byFile: Map<string, Set<Task>> = new Map();
+
+  /**
+   * Index tasks; each task must later be removed with the same object
+   */
+  add(tasks: Task[]): void {
+    for (const task of tasks) {
+      this.forEachValue(task, (field, value) => this.fields[field].add(value, task));
+      if (!task.dueDate) this.withoutDueDate.add(task);
+
+      const fileTasks = this.byFile.get(task.file.path) ?? new Set<Task>();
+      fileTasks.add(task);
+      this.byFile.set(task.file.path, fileTasks);
+    }
+  }
+
+  remove(tasks: Task[]): void {
+    for (const task of tasks) {
+      this.forEachValue(task, (field, value) => this.fields[field].remove(value, task));
+      this.withoutDueDate.delete(task);
+
+      const fileTasks = this.byFile.get(task.file.path);
+      if (fileTasks?.delete(task) && fileTasks.size === 0) {
+        this.byFile.delete(task.file.path);
+      }
+    }
+  }
+
+  clear(): void {
+    for (const index of Object.values(this.fields)) {
+      index.clear();
+    }
+    this.withoutDueDate.clear();
+    this.byFile.clear();
+  }
+
+  /**
+   * Distinct values of a field as written, sorted
+   */
+  getValues(field: IndexedField): string[] {
+    return this.fields[field].getValues();
+  }
+
+  /**
+   * Narrow a query to the tasks that can match it, using the most selective
+   * term it requires on an indexed field. Returns null when no term is
+   * indexed or the narrowest still has more than `maxSize` tasks.
+   */
+  findCandidates(query: QueryNode, context: QueryContext, maxSize = Infinity): Set<Task> | null {
+    let best: Set<Task>[] | null = null;
+    let bestSize = Infinity;
+
+    for (const term of getRequiredTerms(query)) {
+      const buckets = this.lookup(term, context);
+      if (!buckets) continue;
+
+      // Buckets of one term never share a task, so sizes add up
+      const size = buckets.reduce((total, bucket) => total + bucket.size, 0);
+      if (size < bestSize) {
+        best = buckets;
+        bestSize = size;
+        if (size === 0) break;
+      }
+    }
+
+    if (!best || bestSize > maxSize) return null;
+    if (best.length === 1) return best[0];
+
+    const result = new Set<Task>();
+    for (const bucket of best) {
+      for (const task of bucket) result.add(task);
+    }
+    return result;
+  }
+
+  /**
+   * Buckets holding the tasks that can match one comparison, or null if it
+   * can't use an index
+   */
+  private lookup(term: QueryNode, context: QueryContext): Set<Task>[] | null {
+    if (term.type !== 'compare' || term.operator === '!=') return null;
+
+    switch (term.field) {
+      case 'owner':
+      case 'project':
+      case 'stage':
+        return [this.fields[term.field].get(term.value) ?? new Set()];
+      case 'tag':
+        return [this.fields.tag.get(term.value.replace(/^#/, '')) ?? new Set()];
+      case 'due':
+        if (term.value === 'none') return [this.withoutDueDate];
+        return this.fields.due.collect(date => matchesDate(date, term.operator, term.value, context));
+      case 'file': {
+        // File paths are few compared to tasks, so scan them
+        const value = term.value.toLowerCase();
+        return [...this.byFile]
+          .filter(([path]) => path.toLowerCase().includes(value))
+          .map(([, tasks]) => tasks);
+      }
+      default:
+        return null;
+    }
+  }
+
+  private forEachValue(task: Task, callback: (field: IndexedField, value: string) => void): void {
+    if (task.owner) callback('owner', task.owner);
+    if (task.project) callback('project', task.project);
+    if (task.stage) callback('stage', task.stage);
+    if (task.dueDate) callback('due', task.dueDate);
+    for (const tag of new Set(task.tags)) callback('tag', tag);
+  }
+}
+
+/**
+ * Terms every match must satisfy: the query itself, or the children of
+ * AND nodes, flattened
+ */
+function getRequiredTerms(query: QueryNode): QueryNode[] {
+  return query.type === 'and' ? query.children.flatMap(getRequiredTerms) : [query];
+}
@@ -0,0 +1,747 @@
+import { Task, TaskUpdates, TaskFormat, Priority, TaskStatus } from '../types';
+import { PATTERNS, STAGES, PRIORITIES, DEFAULT_TASK_STATUSES } from '../types/constants';
+import { validateDate, validateOwner, validateProject } from '../utils/validation';
+import { sanitizeOwner, sanitizeProject, sanitizeTaskText } from '../utils/textUtils';
+import { formatDateToISO, getToday } from '../utils/dateUtils';
+import { getTaskStatus, getDoneStatus, getTodoStatus } from '../utils/statusUtils';
+import {
+  TaskToken,
+  TaskTokenKind,
+  splitTaskLine,
+  tokenizeTaskContent,
+  removeTokens
+} from './taskTokenizer';
+import { getTaskFormat, detectTaskFormat } from './taskFormats';
+
+// ========================================
+// Types
+// ========================================
+
+export type MetadataField = 'owner' | 'dueDate' | 'stage' | 'project' | 'priority';
+
+// Order used when a field is added to the **meta:** block
+const METADATA_FIELD_ORDER: MetadataField[] = ['owner', 'dueDate', 'stage', 'project', 'priority'];
+
+// Tokens kept at the end of the line when new fields are appended
+const TRAILING_KINDS: TaskTokenKind[] = ['completedDate', 'createdDate', 'blockId'];
+
+interface LineSegment {
+  kind: TaskTokenKind | 'text';
+  format: TaskFormat;
+  text: string;
+  value: string;
+}
+
+interface MetadataPart {
+  raw: string;
+  clean: string;
+  field: MetadataField | null;
+}
+
+/**
+ * A field as written on a task line: an inline token, or one part of the
+ * `**meta:**` block (kind 'metadata') with the field it was read as
+ */
+export interface WrittenField {
+  kind: TaskTokenKind;
+  /** Text of the token, or of the block part without surrounding spaces */
+  text: string;
+  value: string;
+  /** For block parts, the field the parser took it for; null if skipped */
+  readAs: MetadataField | null;
+}
+
+interface ResolvedValues {
+  status: TaskStatus;
+  completed: boolean;
+  text: string;
+  owner: string | null;
+  dueDate: string | null;
+  stage: string | null;
+  project: string | null;
+  priority: string | null;
+  tags: string[];
+}
+
+// ========================================
+// Line Rewriting
+// ========================================
+
+/**
+ * Apply updates to a task's raw line, touching only the fields that changed.
+ * Unknown tokens, links, spacing and field order are preserved; an update
+ * that changes nothing returns the line unchanged.
+ */
+export function rewriteTaskLine(
+  task: Task,
+  updates: TaskUpdates,
+  customStages: string[] = [],
+  statuses: TaskStatus[] = DEFAULT_TASK_STATUSES
+): string {
+  const parts = splitTaskLine(task.rawLine);
+  if (!parts) return task.rawLine;
+
+  const next = resolveValues(task, updates, statuses);
+  let prefix = parts.prefix;
+  const tokens = tokenizeTaskContent(parts.content);
+  const segments = buildSegments(parts.content, tokens);
+
+  // New fields are written in the format the line already uses
+  const lineFormat = detectTaskFormat(tokens);
+
+  // task.stage may only be implied by the checkbox, so compare against the
+  // stage actually written on the line, and skip writing one the new status implies
+  const writtenStage = readWrittenStage(segments, customStages);
+  if (updates.stage === undefined) {
+    next.stage = writtenStage;
+  } else if (next.stage === next.status.stage && writtenStage === null) {
+    next.stage = null;
+  }
+
+  // Checkbox
+  if (next.status.symbol !== parts.status) {
+    prefix = prefix.slice(0, parts.statusOffset) + next.status.symbol + prefix.slice(parts.statusOffset + 1);
+  }
+
+  // Completion date
+  if (next.completed !== task.completed) {
+    if (next.completed) {
+      const today = formatDateToISO(getToday());
+      const index = segments.findIndex(s => s.kind === 'completedDate');
+      if (index >= 0) {
+        const existing = segments[index];
+        const text = getTaskFormat(existing.format).replaceField(existing.text, 'completedDate', today);
+        if (text !== null) segments[index] = tokenSegment('completedDate', text, today, existing.format);
+      } else {
+        const segment = fieldSegment(lineFormat, 'completedDate', today);
+        if (segment) insertSegment(segments, findAppendIndex(segments, ['createdDate', 'blockId']), segment);
+      }
+    } else {
+      removeSegments(segments, s => s.kind === 'completedDate');
+    }
+  }
+
+  // Fields that may be inline tokens or parts of the **meta:** block
+  const blockChanges: Partial<Record<MetadataField, string | null>> = {};
+  for (const field of METADATA_FIELD_ORDER) {
+    const current = field === 'stage' ? writtenStage : task[field];
+    if (next[field] !== current) {
+      applyInlineField(segments, field, next[field], lineFormat, blockChanges, customStages);
+    }
+  }
+
+  if (Object.keys(blockChanges).length > 0) {
+    applyBlockChanges(segments, blockChanges, customStages, lineFormat);
+  }
+
+  // Display text
+  if (next.text !== task.text) {
+    replaceText(segments, next.text);
+  }
+
+  // Tags
+  const oldTags = new Set(task.tags.map(t => t.toLowerCase()));
+  const newTags = new Set(next.tags.map(t => t.toLowerCase()));
+  const removedTags = [...oldTags].filter(t => !newTags.has(t));
+  const addedTags = next.tags.filter((t, i) =>
+    !oldTags.has(t.toLowerCase()) && next.tags.findIndex(o => o.toLowerCase() === t.toLowerCase()) === i
+  );
+
+  if (removedTags.length > 0) {
+    removeSegments(segments, s => s.kind === 'tag' && removedTags.includes(s.value.toLowerCase()));
+  }
+  for (const tag of addedTags) {
+    const segment = fieldSegment(lineFormat, 'tag', tag);
+    if (segment) insertSegment(segments, findAppendIndex(segments, TRAILING_KINDS), segment);
+  }
+
+  // Dependencies
+  if (updates.blockedBy !== undefined) {
+    applyDependencyField(segments, 'blockedBy', task.blockedBy, updates.blockedBy, lineFormat);
+  }
+  if (updates.blocks !== undefined) {
+    applyDependencyField(segments, 'blocks', task.blocks, updates.blocks, lineFormat);
+  }
+
+  // Series ID; formats without their own syntax use the default [series:]
+  if (updates.seriesId && updates.seriesId !== task.seriesId) {
+    const index = segments.findIndex(s => s.kind === 'seriesId');
+    const segment = fieldSegment(lineFormat, 'seriesId', updates.seriesId) ??
+      fieldSegment('default', 'seriesId', updates.seriesId)!;
+    if (index >= 0) {
+      segments[index] = segment;
+    } else {
+      insertSegment(segments, findAppendIndex(segments, TRAILING_KINDS), segment);
+    }
+  }
+
+  // Recurrence rule, e.g. after skipping or moving one occurrence
+  if (updates.recurrence !== undefined && updates.recurrence !== task.recurrence?.rawString) {
+    const index = segments.findIndex(s => s.kind === 'recurrence');
+    if (index >= 0) {
+      const existing = segments[index];
+      const text = getTaskFormat(existing.format).replaceField(existing.text, 'recurrence', updates.recurrence);
+      if (text !== null) segments[index] = tokenSegment('recurrence', text, updates.recurrence, existing.format);
+    } else {
+      const segment = fieldSegment(lineFormat, 'recurrence', updates.recurrence);
+      if (segment) insertSegment(segments, findAppendIndex(segments, TRAILING_KINDS), segment);
+    }
+  }
+
+  // Block ID must stay the last thing on the line
+  if (updates.blockId && updates.blockId !== task.blockId) {
+    const index = segments.findIndex(s => s.kind === 'blockId');
+    const segment = fieldSegment(lineFormat, 'blockId', updates.blockId)!;
+    if (index >= 0) {
+      segments[index] = segment;
+    } else {
+      if (isBlank(segments[segments.length - 1])) segments.pop();
+      insertSegment(segments, segments.length, segment);
+    }
+  }
+
+  return prefix + segments.map(s => s.text).join('');
+}
+
+/**
+ * Rewrite the task IDs in a line's dependency fields where they stand,
+ * e.g. after the file they point into was renamed. Returns the line
+ * unchanged when `replace` changes no ID.
+ */
+export function replaceDependencyIds(line: string, replace: (id: string) => string): string {
+  const parts = splitTaskLine(line);
+  if (!parts) return line;
+
+  const segments = buildSegments(parts.content, tokenizeTaskContent(parts.content));
+  let changed = false;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (segment.kind !== 'blockedBy' && segment.kind !== 'blocks') continue;
+
+    const ids = segment.value.split(',').map(id => id.trim()).filter(id => id);
+    const replaced = ids.map(replace);
+    if (replaced.every((id, j) => id === ids[j])) continue;
+
+    const value = replaced.join(',');
+    const text = getTaskFormat(segment.format).replaceField(segment.text, segment.kind, value);
+    if (text === null) continue;
+
+    segments[i] = tokenSegment(segment.kind, text, value, segment.format);
+    changed = true;
+  }
+
+  return changed ? parts.prefix + segments.map(s => s.text).join('') : line;
+}
+
+/**
+ * List the fields written on a line, including values the parser drops,
+ * such as block parts that are neither a valid owner nor a valid project
+ */
+export function readWrittenFields(line: string, customStages: string[] = []): WrittenField[] {
+  const parts = splitTaskLine(line);
+  if (!parts) return [];
+
+  const fields: WrittenField[] = [];
+  for (const segment of buildSegments(parts.content, tokenizeTaskContent(parts.content))) {
+    if (segment.kind === 'text') continue;
+
+    if (segment.kind !== 'metadata') {
+      fields.push({ kind: segment.kind, text: segment.text, value: segment.value, readAs: null });
+      continue;
+    }
+
+    for (const part of parseMetadataParts(segment.text, customStages)) {
+      if (!part.clean) continue;
+      fields.push({ kind: 'metadata', text: part.raw.trim(), value: part.clean, readAs: part.field });
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Replace a field found by readWrittenFields with a new value, or remove
+ * it when `value` is null. Returns null if the line no longer has the field.
+ */
+export function replaceWrittenField(
+  line: string,
+  field: WrittenField,
+  value: string | null,
+  customStages: string[] = []
+): string | null {
+  const parts = splitTaskLine(line);
+  if (!parts) return null;
+
+  const segments = buildSegments(parts.content, tokenizeTaskContent(parts.content));
+
+  if (field.kind === 'metadata') {
+    const blockIndex = segments.findIndex(s => s.kind === 'metadata');
+    if (blockIndex < 0) return null;
+
+    const block = segments[blockIndex].text;
+    const blockParts = parseMetadataParts(block, customStages);
+    const index = blockParts.findIndex(p => p.raw.trim() === field.text);
+    if (index < 0) return null;
+
+    if (value === null) {
+      blockParts.splice(index, 1);
+    } else {
+      blockParts[index].raw = blockParts[index].raw.replace(field.text, value);
+      blockParts[index].clean = value;
+    }
+    writeMetadataBlock(segments, blockIndex, block, blockParts);
+  } else {
+    const target = segments.find(s => s.kind === field.kind && s.text === field.text);
+    if (!target) return null;
+
+    if (value === null) {
+      removeSegments(segments, s => s === target);
+    } else {
+      const text = getTaskFormat(target.format).replaceField(target.text, field.kind, value);
+      if (text === null) return null;
+      segments[segments.indexOf(target)] = tokenSegment(field.kind, text, value, target.format);
+    }
+  }
+
+  return parts.prefix + segments.map(s => s.text).join('');
+}
+
+/**
+ * Update a field that can be an inline token or a block part. An existing
+ * token wins, then the block, then a new token in the line's format; formats
+ * without inline syntax for the field fall back to the block.
+ */
+function applyInlineField(
+  segments: LineSegment[],
+  field: MetadataField,
+  value: string | null,
+  lineFormat: TaskFormat,
+  blockChanges: Partial<Record<MetadataField, string | null>>,
+  customStages: string[]
+): void {
+  const index = segments.findIndex(s => s.kind === field);
+  const blockIndex = segments.findIndex(s => s.kind === 'metadata');
+  const inBlock = blockIndex >= 0 &&
+    parseMetadataParts(segments[blockIndex].text, customStages).some(p => p.field === field);
+
+  if (value === null) {
+    removeSegments(segments, s => s.kind === field);
+    if (inBlock) blockChanges[field] = null;
+    return;
+  }
+
+  if (index >= 0) {
+    const existing = segments[index];
+    const text = getTaskFormat(existing.format).replaceField(existing.text, field, value);
+    if (text !== null) {
+      segments[index] = tokenSegment(field, text, value, existing.format);
+      return;
+    }
+  }
+
+  if (!inBlock) {
+    const segment = fieldSegment(lineFormat, field, value);
+    if (segment) {
+      insertSegment(segments, findAppendIndex(segments, TRAILING_KINDS), segment);
+      return;
+    }
+  }
+
+  blockChanges[field] = value;
+}
+
+/**
+ * Add and remove dependency IDs, editing comma-separated lists in place
+ */
+function applyDependencyField(
+  segments: LineSegment[],
+  kind: 'blockedBy' | 'blocks',
+  oldIds: string[],
+  newIds: string[],
+  lineFormat: TaskFormat
+): void {
+  const removed = oldIds.filter(id => !newIds.includes(id));
+  const added = newIds.filter((id, i) => !oldIds.includes(id) && newIds.indexOf(id) === i);
+
+  if (removed.length > 0) {
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      if (segment.kind !== kind) continue;
+
+      const ids = segment.value.split(',').map(id => id.trim()).filter(id => id);
+      const kept = ids.filter(id => !removed.includes(id));
+      if (kept.length === ids.length) continue;
+
+      const value = kept.join(',');
+      const text = kept.length > 0
+        ? getTaskFormat(segment.format).replaceField(segment.text, kind, value)
+        : '';
+      segments[i] = tokenSegment(kind, text ?? segment.text, value, segment.format);
+    }
+    removeSegments(segments, s => s.kind === kind && s.text === '');
+  }
+
+  // Only the default format has dependency syntax
+  for (const id of added) {
+    const segment = fieldSegment(lineFormat, kind, id) ?? fieldSegment('default', kind, id);
+    if (segment) insertSegment(segments, findAppendIndex(segments, TRAILING_KINDS), segment);
+  }
+}
+
+/**
+ * Work out the final value of every editable field
+ */
+function resolveValues(task: Task, updates: TaskUpdates, statuses: TaskStatus[]): ResolvedValues {
+  let status = getTaskStatus(task.status, statuses);
+  if (updates.status !== undefined) {
+    status = getTaskStatus(updates.status, statuses);
+  } else if (updates.completed !== undefined && updates.completed !== task.completed) {
+    status = updates.completed ? getDoneStatus(statuses) : getTodoStatus(statuses);
+  }
+
+  return {
+    status,
+    completed: status.isDone,
+    text: updates.text !== undefined ? sanitizeTaskText(updates.text) : task.text,
+    owner: updates.owner !== undefined ? sanitizeOwner(updates.owner) : task.owner,
+    dueDate: updates.dueDate !== undefined ? (updates.dueDate || null) : task.dueDate,
+    stage: updates.stage !== undefined ? (updates.stage || null) : task.stage,
+    project: updates.project !== undefined ? sanitizeProject(updates.project) : task.project,
+    priority: updates.priority !== undefined ? (updates.priority || null) : task.priority,
+    tags: updates.tags ?? task.tags
+  };
+}
+
+// ========================================
+// Segments
+// ========================================
+
+/**
+ * Split content into text and token segments that join back to the original
+ */
+function buildSegments(content: string, tokens: TaskToken[]): LineSegment[] {
+  const segments: LineSegment[] = [];
+  let position = 0;
+
+  for (const token of tokens) {
+    // Tokens nested in the metadata block stay part of the block
+    if (token.start < position) continue;
+
+    if (token.start > position) {
+      segments.push(textSegment(content.slice(position, token.start)));
+    }
+    segments.push(tokenSegment(token.kind, content.slice(token.start, token.end), token.value, token.format));
+    position = token.end;
+  }
+
+  if (position < content.length) {
+    segments.push(textSegment(content.slice(position)));
+  }
+
+  return segments;
+}
+
+function textSegment(text: string): LineSegment {
+  return { kind: 'text', format: 'default', text, value: text };
+}
+
+function tokenSegment(kind: TaskTokenKind, text: string, value: string, format: TaskFormat): LineSegment {
+  return { kind, format, text, value };
+}
+
+/**
+ * Render a field in the given format, or null if the format can't express it
+ */
+function fieldSegment(format: TaskFormat, kind: TaskTokenKind, value: string): LineSegment | null {
+  const text = getTaskFormat(format).writeField(kind, value);
+  return text === null ? null : tokenSegment(kind, text, value, format);
+}
+
+function isBlank(segment: LineSegment | undefined): boolean {
+  return segment !== undefined && segment.kind === 'text' && segment.text.trim() === '';
+}
+
+/**
+ * Index after the last segment that is not one of the trailing kinds,
+ * so appended tokens stay ahead of e.g. [done:] and [created:]
+ */
+function findAppendIndex(segments: LineSegment[], trailingKinds: TaskTokenKind[]): number {
+  let index = segments.length;
+
+  while (index > 0) {
+    const segment = segments[index - 1];
+    if (!isBlank(segment) && !trailingKinds.includes(segment.kind as TaskTokenKind)) break;
+    index--;
+  }
+
+  return index;
+}
+
+/**
+ * Insert a segment, adding a separating space where it would touch its neighbours
+ */
+function insertSegment(segments: LineSegment[], index: number, segment: LineSegment): void {
+  const before = segments[index - 1];
+  const after = segments[index];
+  let text = segment.text;
+
+  if (before && !/\s$/.test(before.text) && !/^\s/.test(text)) {
+    text = ' ' + text;
+  }
+  if (after && !/^\s/.test(after.text) && !/\s$/.test(text)) {
+    text = text + ' ';
+  }
+
+  segments.splice(index, 0, { ...segment, text });
+}
+
+/**
+ * Remove matching segments together with the whitespace that separated them
+ */
+function removeSegments(segments: LineSegment[], predicate: (segment: LineSegment) => boolean): void {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    // Cleanup below can shorten the list past the current index
+    if (!segments[i] || !predicate(segments[i])) continue;
+
+    segments.splice(i, 1);
+    const before = segments[i - 1];
+    const after = segments[i];
+
+    if (after && after.kind === 'text' && /^\s/.test(after.text) && (!before || /\s$/.test(before.text))) {
+      after.text = after.text.replace(/^\s+/, '');
+    } else if (!after && before && before.kind === 'text') {
+      before.text = before.text.replace(/\s+$/, '');
+    }
+
+    if (segments[i] && segments[i].text === '') segments.splice(i, 1);
+    if (segments[i - 1] && segments[i - 1].text === '') segments.splice(i - 1, 1);
+  }
+}
+
+/**
+ * Replace the display text, keeping the whitespace around it
+ */
+function replaceText(segments: LineSegment[], text: string): void {
+  const blockIndex = segments.findIndex(s => s.kind === 'metadata');
+  let replaced = false;
+
+  for (let i = blockIndex + 1; i < segments.length; i++) {
+    const segment = segments[i];
+    if (segment.kind !== 'text' || segment.text.trim() === '') continue;
+
+    if (!replaced && text) {
+      const leading = segment.text.match(/^\s*/)![0];
+      const trailing = segment.text.match(/\s*$/)![0];
+      segment.text = leading + text + trailing;
+      replaced = true;
+    } else {
+      segment.text = i === 0 || i === segments.length - 1 ? '' : ' ';
+    }
+  }
+
+  if (!replaced && text) {
+    insertSegment(segments, blockIndex + 1, textSegment(text));
+  }
+
+  removeSegments(segments, s => s.kind === 'text' && s.text === '');
+}
+
+// ========================================
+// Metadata Block
+// ========================================
+
+/**
+ * Stage written on the line as an inline field or block part, if any
+ */
+function readWrittenStage(segments: LineSegment[], customStages: string[]): string | null {
+  const token = segments.find(s => s.kind === 'stage');
+  if (token) return token.value;
+
+  const block = segments.find(s => s.kind === 'metadata');
+  const part = block ? parseMetadataParts(block.text, customStages).find(p => p.field === 'stage') : undefined;
+  return part ? part.clean : null;
+}
+
+/**
+ * Split a raw `**meta:**` block into parts, classified like parseMetadataString
+ */
+function parseMetadataParts(block: string, customStages: string[]): MetadataPart[] {
+  const inner = block.slice(2, -3);
+  const rawParts = inner.split('|');
+  const parts: MetadataPart[] = rawParts.map(raw => {
+    const nested = tokenizeTaskContent(raw).filter(t => t.kind !== 'metadata');
+    return { raw, clean: removeTokens(raw, nested).trim(), field: null };
+  });
+
+  classifyMetadataParts(parts, customStages);
+  return parts;
+}
+
+/**
+ * Set the field each part is read as, by value and position like
+ * parseMetadataString
+ */
+function classifyMetadataParts(parts: MetadataPart[], customStages: string[]): void {
+  const allStages = [...STAGES, ...customStages];
+  for (const part of parts) part.field = null;
+
+  if (parts.length === 1) {
+    const part = parts[0];
+    if (!part.clean) return;
+
+    if (PATTERNS.DATE.test(part.clean)) part.field = 'dueDate';
+    else if (allStages.includes(part.clean)) part.field = 'stage';
+    else if (PRIORITIES.includes(part.clean.toLowerCase() as Priority)) part.field = 'priority';
+    else part.field = 'owner';
+
+    return;
+  }
+
+  let hasOwner = false;
+  let hasProject = false;
+
+  for (const part of parts) {
+    if (!part.clean) continue;
+
+    const dateMatch = part.clean.match(PATTERNS.DATE_WITH_PREFIX);
+    if (dateMatch) {
+      if (validateDate(dateMatch[1]).isValid) part.field = 'dueDate';
+      continue;
+    }
+
+    if (allStages.includes(part.clean)) {
+      part.field = 'stage';
+      continue;
+    }
+
+    if (PRIORITIES.includes(part.clean.toLowerCase() as Priority)) {
+      part.field = 'priority';
+      continue;
+    }
+
+    if (!hasOwner && validateOwner(part.clean).isValid) {
+      part.field = 'owner';
+      hasOwner = true;
+      continue;
+    }
+
+    if (!hasProject && validateProject(part.clean).isValid) {
+      part.field = 'project';
+      hasProject = true;
+    }
+  }
+}
+
+/**
+ * Set, replace or remove fields inside the **meta:** block
+ */
+function applyBlockChanges(
+  segments: LineSegment[],
+  changes: Partial<Record<MetadataField, string | null>>,
+  customStages: string[],
+  lineFormat: TaskFormat
+): void {
+  const blockIndex = segments.findIndex(s => s.kind === 'metadata');
+  const block = blockIndex >= 0 ? segments[blockIndex].text : null;
+  const parts = block ? parseMetadataParts(block, customStages) : [];
+
+  for (const field of METADATA_FIELD_ORDER) {
+    const value = changes[field];
+    if (value === undefined) continue;
+
+    const indexes = parts.map((p, i) => (p.field === field ? i : -1)).filter(i => i >= 0);
+
+    if (value === null) {
+      for (const index of indexes.reverse()) parts.splice(index, 1);
+      continue;
+    }
+
+    if (indexes.length > 0) {
+      // Owner and project use the first match, other fields the last
+      const index = field === 'owner' || field === 'project' ? indexes[0] : indexes[indexes.length - 1];
+      const part = parts[index];
+      const replacement = field === 'dueDate'
+        ? part.clean.replace(/\d{4}-\d{2}-\d{2}/, value)
+        : value;
+      part.raw = part.raw.includes(part.clean) && part.clean
+        ? part.raw.replace(part.clean, replacement)
+        : ` ${replacement} `;
+      part.clean = replacement;
+      continue;
+    }
+
+    const order = METADATA_FIELD_ORDER.indexOf(field);
+    let insertAt = parts.findIndex(p => p.field !== null && METADATA_FIELD_ORDER.indexOf(p.field) > order);
+    if (insertAt < 0) insertAt = parts.length;
+
+    // Neighbours written without spaces still get the usual " | "
+    const before = parts[insertAt - 1];
+    const after = parts[insertAt];
+    if (before && !/\s$/.test(before.raw)) before.raw += ' ';
+    if (after && !/^\s/.test(after.raw)) after.raw = ' ' + after.raw;
+
+    parts.splice(insertAt, 0, { raw: ` ${value} `, clean: value, field });
+  }
+
+  // Parts are read by position: a project with no owner before it, or a
+  // lone project, would be read as the owner. Such parts move out of the
+  // block into explicit inline fields, which the parser reads by name.
+  const moved: MetadataPart[] = [];
+  for (;;) {
+    const reread = parts.map(p => ({ ...p }));
+    classifyMetadataParts(reread, customStages);
+
+    const index = parts.findIndex((p, i) => p.field !== null && reread[i].field !== p.field);
+    if (index < 0) break;
+    moved.push(...parts.splice(index, 1));
+  }
+
+  writeMetadataBlock(segments, blockIndex, block, parts);
+
+  for (const part of moved) {
+    const field = part.field!;
+    const value = field === 'dueDate' ? part.clean.match(/\d{4}-\d{2}-\d{2}/)?.[0] ?? part.clean : part.clean;
+    const segment = fieldSegment(lineFormat, field, value) ?? fieldSegment('dataview', field, value);
+    if (segment) insertSegment(segments, findAppendIndex(segments, TRAILING_KINDS), segment);
+  }
+}
+
+/**
+ * Write block parts back as the **meta:** block at `blockIndex` (-1 to
+ * add one), keeping the spacing of the original block. A block left
+ * without parts is removed.
+ */
+function writeMetadataBlock(
+  segments: LineSegment[],
+  blockIndex: number,
+  block: string | null,
+  parts: MetadataPart[]
+): void {
+  const inner = block ? block.slice(2, -3) : '';
+  const leading = inner.match(/^\s*/)![0];
+  const trailing = inner.match(/\s*$/)![0];
+
+  if (parts.every(p => p.raw.trim() === '')) {
+    if (blockIndex >= 0) removeSegments(segments, s => s.kind === 'metadata');
+    return;
+  }
+
+  // A lone value is only read as a date without the "Due" prefix
+  if (parts.length === 1 && parts[0].field === 'dueDate') {
+    parts[0].raw = parts[0].raw.replace(/Due\s+/i, '');
+  }
+
+  parts[0].raw = parts[0].raw.replace(/^\s+/, '');
+  parts[parts.length - 1].raw = parts[parts.length - 1].raw.replace(/\s+$/, '');
+  const text = `**${leading}${parts.map(p => p.raw).join('|')}${trailing}:**`;
+  const segment = tokenSegment('metadata', text, parts.map(p => p.clean).join(' | '), 'default');
+
+  if (blockIndex >= 0) {
+    segments[blockIndex] = segment;
+  } else {
+    // A new block must come before the display text to be recognised
+    const textIndex = segments.findIndex(s => s.kind === 'text' && s.text.trim() !== '');
+    insertSegment(segments, textIndex >= 0 ? textIndex : segments.length, segment);
+  }
+}
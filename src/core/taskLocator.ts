@@ -0,0 +1,142 @@
+import { Task, TaskStatus } from '../types';
+import { DEFAULT_TASK_STATUSES } from '../types/constants';
+import { getTextSimilarity } from '../utils/textUtils';
+import { parseTaskLine } from './taskParser';
+
+// ========================================
+// Task Relocation
+// ========================================
+
+/** Lines either side of the task's recorded position that are searched first */
+const NEARBY_LINES = 20;
+
+/** Lowest score at which an edited line still counts as the task */
+const MIN_MATCH_SCORE = 0.6;
+
+/** How far the best match must lead the next one to be taken without asking */
+const MIN_MATCH_MARGIN = 0.1;
+
+/** Fields compared besides the text when scoring an edited line */
+const MATCH_FIELDS = ['owner', 'project', 'dueDate', 'scheduledDate', 'startDate', 'priority', 'seriesId'] as const;
+
+export interface TaskCandidate {
+  task: Task;
+  score: number;
+}
+
+export type TaskLocateResult =
+  | { status: 'found'; task: Task }
+  | { status: 'ambiguous'; candidates: TaskCandidate[] }
+  | { status: 'missing' };
+
+/**
+ * Find a task in the current lines of its file after the file may have
+ * changed since it was parsed. Tries, in order: its line unchanged, the
+ * nearest identical line, its block ID, then the closest match on text and
+ * metadata near its old position and then anywhere in the file. The task
+ * returned is parsed from the line as it now reads.
+ */
+export function locateTask(
+  task: Task,
+  lines: string[],
+  customStages: string[] = [],
+  statuses: TaskStatus[] = DEFAULT_TASK_STATUSES
+): TaskLocateResult {
+  const parse = (lineNumber: number): Task | null => {
+    const parsed = parseTaskLine(lines[lineNumber], task.file, lineNumber, customStages, statuses);
+    return parsed ? { ...parsed, parentId: task.parentId, children: task.children } : null;
+  };
+
+  // The line itself, or an identical one that moved
+  const identical: TaskCandidate[] = [];
+  lines.forEach((line, lineNumber) => {
+    if (line !== task.rawLine) return;
+    const parsed = parse(lineNumber);
+    if (parsed) identical.push({ task: parsed, score: -Math.abs(lineNumber - task.lineNumber) });
+  });
+  if (identical.length > 0) {
+    return chooseCandidate(identical, 0);
+  }
+
+  // Block IDs are unique within a file
+  if (task.blockId) {
+    for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+      if (!lines[lineNumber].includes(`^${task.blockId}`)) continue;
+      const parsed = parse(lineNumber);
+      if (parsed?.blockId === task.blockId) return { status: 'found', task: parsed };
+    }
+  }
+
+  // The line was edited: score nearby lines first, then the whole file
+  const start = Math.max(0, task.lineNumber - NEARBY_LINES);
+  const end = Math.min(lines.length, task.lineNumber + NEARBY_LINES + 1);
+  const nearby = chooseCandidate(scoreLines(task, start, end, parse), MIN_MATCH_MARGIN);
+  if (nearby.status === 'found') return nearby;
+
+  return chooseCandidate(scoreLines(task, 0, lines.length, parse), MIN_MATCH_MARGIN);
+}
+
+/**
+ * Score the task lines in a range that could be the task after an edit
+ */
+function scoreLines(
+  task: Task,
+  start: number,
+  end: number,
+  parse: (lineNumber: number) => Task | null
+): TaskCandidate[] {
+  const candidates: TaskCandidate[] = [];
+  for (let lineNumber = start; lineNumber < end; lineNumber++) {
+    const parsed = parse(lineNumber);
+    if (!parsed) continue;
+
+    const score = scoreMatch(task, parsed);
+    if (score >= MIN_MATCH_SCORE) candidates.push({ task: parsed, score });
+  }
+  return candidates;
+}
+
+/**
+ * How likely `other` is `task` after an edit, from 0 to 1. The status is
+ * left out, since another device completing the task is a common edit.
+ */
+function scoreMatch(task: Task, other: Task): number {
+  const text = getTextSimilarity(task.text, other.text);
+
+  // Only fields set on either side count
+  const compared = MATCH_FIELDS
+    .filter(field => task[field] !== null || other[field] !== null)
+    .map(field => task[field] === other[field]);
+  if (task.recurrence || other.recurrence) {
+    compared.push(task.recurrence?.rawString === other.recurrence?.rawString);
+  }
+
+  if (compared.length === 0) return text;
+  return 0.7 * text + 0.3 * (compared.filter(same => same).length / compared.length);
+}
+
+/**
+ * The best candidate when it leads the rest by more than `margin`,
+ * otherwise every candidate within the margin of it
+ */
+function chooseCandidate(candidates: TaskCandidate[], margin: number): TaskLocateResult {
+  if (candidates.length === 0) return { status: 'missing' };
+
+  const sorted = [...candidates].sort((a, b) => b.score - a.score);
+  if (sorted.length === 1 || sorted[0].score - sorted[1].score > margin) {
+    return { status: 'found', task: sorted[0].task };
+  }
+
+  return { status: 'ambiguous', candidates: sorted.filter(c => sorted[0].score - c.score <= margin) };
+}
+
+/**
+ * Index of the line identical to `line` closest to `lineNumber`, or -1
+ */
+export function findLineNear(lines: string[], line: string, lineNumber: number): number {
+  for (let distance = 0; distance <= Math.max(lineNumber, lines.length); distance++) {
+    if (lines[lineNumber - distance] === line) return lineNumber - distance;
+    if (lines[lineNumber + distance] === line) return lineNumber + distance;
+  }
+  return -1;
+}
@@ -1,79 +1,11 @@
-import { TFile, App } from 'obsidian';
-import { Task, Recurrence, ParsedMetadata, TaskConsolidatorSettings, Priority } from '../types';
-import { PATTERNS, STAGES, PRIORITIES, RECURRENCE_TYPES } from '../types/constants';
+import type { TFile, App } from 'obsidian';
+import { Task, SerializedTask, TaskLocation, ParseSource, ParsedMetadata, TaskConsolidatorSettings, Priority, TaskStatus } from '../types';
+import { PATTERNS, STAGES, PRIORITIES, DEFAULT_TASK_STATUSES } from '../types/constants';
 import { validateDate, validateOwner, validateProject } from '../utils/validation';
 import { calculateIndentDepth } from '../utils/textUtils';
-
-// ========================================
-// Recurrence Parsing
-// ========================================
-
-/**
- * Parse a recurrence string into a Recurrence object
- */
-export function parseRecurrence(recurrenceStr: string): Recurrence | null {
-  const text = recurrenceStr.toLowerCase().trim();
-
-  // Simple type match (daily, weekly, monthly, yearly, custom)
-  if (RECURRENCE_TYPES.includes(text as any)) {
-    return { type: text as any, rawString: recurrenceStr };
-  }
-
-  // "every X days/weeks/months/years"
-  const intervalMatch = text.match(
-    /^every\s+(\d+)\s+(day|days|week|weeks|month|months|year|years)$/
-  );
-
-  if (intervalMatch) {
-    const interval = parseInt(intervalMatch[1], 10);
-    const unit = intervalMatch[2];
-    let type: Recurrence['type'] = 'custom';
-
-    if (unit.startsWith('day')) type = 'daily';
-    else if (unit.startsWith('week')) type = 'weekly';
-    else if (unit.startsWith('month')) type = 'monthly';
-    else if (unit.startsWith('year')) type = 'yearly';
-
-    return { type, interval, rawString: recurrenceStr };
-  }
-
-  // "every monday,wednesday,friday" or "every mon,wed,fri"
-  const daysMatch = text.match(
-    /^every\s+((?:mon|tue|wed|thu|fri|sat|sun)(?:day)?(?:,\s*(?:mon|tue|wed|thu|fri|sat|sun)(?:day)?)*)$/
-  );
-
-  if (daysMatch) {
-    const dayMap: Record<string, number> = {
-      sun: 0, sunday: 0,
-      mon: 1, monday: 1,
-      tue: 2, tuesday: 2,
-      wed: 3, wednesday: 3,
-      thu: 4, thursday: 4,
-      fri: 5, friday: 5,
-      sat: 6, saturday: 6
-    };
-
-    const daysOfWeek = daysMatch[1]
-      .split(',')
-      .map(d => d.trim())
-      .map(d => dayMap[d.replace(/day$/, '')])
-      .filter(d => d !== undefined);
-
-    return { type: 'weekly', daysOfWeek, rawString: recurrenceStr };
-  }
-
-  // "weekdays" shorthand
-  if (text === 'weekdays') {
-    return { type: 'weekly', daysOfWeek: [1, 2, 3, 4, 5], rawString: recurrenceStr };
-  }
-
-  // "weekends" shorthand
-  if (text === 'weekends') {
-    return { type: 'weekly', daysOfWeek: [0, 6], rawString: recurrenceStr };
-  }
-
-  return null;
-}
+import { getTaskStatus } from '../utils/statusUtils';
+import { parseRecurrence } from '../utils/recurrenceUtils';
+import { tokenizeTaskContent, removeTokens } from './taskTokenizer';
 
 // ========================================
 // Metadata Parsing
@@ -89,6 +21,8 @@ export function parseMetadataString(
   const result: ParsedMetadata = {
     owner: null,
     dueDate: null,
+    scheduledDate: null,
+    startDate: null,
     stage: null,
     project: null,
     priority: null,
@@ -99,7 +33,9 @@ export function parseMetadataString(
     blockedBy: [],
     blocks: [],
     estimate: null,
-    timeLogged: null
+    timeLogged: null,
+    blockId: null,
+    seriesId: null
   };
 
   const allStages = [...STAGES, ...customStages];
@@ -169,83 +105,70 @@ export function parseMetadataString(
  * Extract inline metadata from task text
  */
 export function extractInlineMetadata(text: string): { cleanText: string; metadata: Partial<ParsedMetadata> } {
-  let cleanText = text;
   const metadata: Partial<ParsedMetadata> = { tags: [], blockedBy: [], blocks: [], estimate: null, timeLogged: null };
-
-  // Extract completed date
-  const completedMatch = cleanText.match(PATTERNS.COMPLETED_DATE);
-  if (completedMatch) {
-    metadata.completedDate = completedMatch[1];
-    cleanText = cleanText.replace(PATTERNS.COMPLETED_DATE, '').trim();
-  }
-
-  // Extract created date
-  const createdMatch = cleanText.match(PATTERNS.CREATED_DATE);
-  if (createdMatch) {
-    metadata.createdDate = createdMatch[1];
-    cleanText = cleanText.replace(PATTERNS.CREATED_DATE, '').trim();
-  }
-
-  // Extract priority
-  const priorityMatch = cleanText.match(PATTERNS.PRIORITY);
-  if (priorityMatch) {
-    metadata.priority = priorityMatch[1].toLowerCase() as Priority;
-    cleanText = cleanText.replace(PATTERNS.PRIORITY, '').trim();
-  }
-
-  // Extract recurrence
-  const recurrenceMatch = cleanText.match(PATTERNS.RECURRENCE);
-  if (recurrenceMatch) {
-    metadata.recurrence = parseRecurrence(recurrenceMatch[1]);
-    cleanText = cleanText.replace(PATTERNS.RECURRENCE, '').trim();
-  }
-
-  // Extract blocked-by dependencies
-  const blockedByMatches = [...cleanText.matchAll(PATTERNS.BLOCKED_BY)];
-  for (const match of blockedByMatches) {
-    if (match[1]) {
-      // Split by comma for multiple dependencies: [blocked-by:id1,id2]
-      const ids = match[1].split(',').map(id => id.trim()).filter(id => id);
-      metadata.blockedBy!.push(...ids);
-    }
-  }
-  cleanText = cleanText.replace(PATTERNS.BLOCKED_BY, '').trim();
-
-  // Extract blocks dependencies
-  const blocksMatches = [...cleanText.matchAll(PATTERNS.BLOCKS)];
-  for (const match of blocksMatches) {
-    if (match[1]) {
-      const ids = match[1].split(',').map(id => id.trim()).filter(id => id);
-      metadata.blocks!.push(...ids);
-    }
-  }
-  cleanText = cleanText.replace(PATTERNS.BLOCKS, '').trim();
-
-  // Extract estimate
-  const estimateMatch = cleanText.match(PATTERNS.ESTIMATE);
-  if (estimateMatch) {
-    metadata.estimate = estimateMatch[1].trim();
-    cleanText = cleanText.replace(PATTERNS.ESTIMATE, '').trim();
-  }
-
-  // Extract time logged
-  const loggedMatch = cleanText.match(PATTERNS.TIME_LOGGED);
-  if (loggedMatch) {
-    metadata.timeLogged = loggedMatch[1].trim();
-    cleanText = cleanText.replace(PATTERNS.TIME_LOGGED, '').trim();
-  }
-
-  // Extract tags
-  const tagMatches = cleanText.matchAll(PATTERNS.TAGS);
-  for (const match of tagMatches) {
-    if (match[1]) {
-      metadata.tags!.push(match[1].toLowerCase());
+  const tokens = tokenizeTaskContent(text).filter(t => t.kind !== 'metadata');
+
+  for (const token of tokens) {
+    switch (token.kind) {
+      case 'completedDate':
+        if (metadata.completedDate === undefined) metadata.completedDate = token.value;
+        break;
+      case 'createdDate':
+        if (metadata.createdDate === undefined) metadata.createdDate = token.value;
+        break;
+      case 'dueDate':
+        if (metadata.dueDate === undefined) metadata.dueDate = token.value;
+        break;
+      case 'scheduledDate':
+        if (metadata.scheduledDate === undefined) metadata.scheduledDate = token.value;
+        break;
+      case 'startDate':
+        if (metadata.startDate === undefined) metadata.startDate = token.value;
+        break;
+      case 'priority':
+        if (metadata.priority === undefined && PRIORITIES.includes(token.value.toLowerCase() as Priority)) {
+          metadata.priority = token.value.toLowerCase() as Priority;
+        }
+        break;
+      case 'owner':
+        if (metadata.owner === undefined) metadata.owner = token.value;
+        break;
+      case 'project':
+        if (metadata.project === undefined) metadata.project = token.value;
+        break;
+      case 'stage':
+        if (metadata.stage === undefined) metadata.stage = token.value;
+        break;
+      case 'recurrence':
+        if (metadata.recurrence === undefined) metadata.recurrence = parseRecurrence(token.value);
+        break;
+      case 'blockedBy':
+        // Split by comma for multiple dependencies: [blocked-by:id1,id2]
+        metadata.blockedBy!.push(...token.value.split(',').map(id => id.trim()).filter(id => id));
+        break;
+      case 'blocks':
+        metadata.blocks!.push(...token.value.split(',').map(id => id.trim()).filter(id => id));
+        break;
+      case 'estimate':
+        if (metadata.estimate === null) metadata.estimate = token.value;
+        break;
+      case 'timeLogged':
+        if (metadata.timeLogged === null) metadata.timeLogged = token.value;
+        break;
+      case 'tag':
+        metadata.tags!.push(token.value.toLowerCase());
+        break;
+      case 'seriesId':
+        metadata.seriesId = token.value;
+        break;
+      case 'blockId':
+        metadata.blockId = token.value;
+        break;
     }
   }
-  cleanText = cleanText.replace(PATTERNS.TAGS, '').trim();
 
   // Clean up whitespace
-  cleanText = cleanText.replace(/\s+/g, ' ').trim();
+  const cleanText = removeTokens(text, tokens).replace(/\s+/g, ' ').trim();
 
   return { cleanText, metadata };
 }
@@ -254,6 +177,14 @@ export function extractInlineMetadata(text: string): { cleanText: string; metada
 // Task Parsing
 // ========================================
 
+/**
+ * Build a task ID: "path#^blockId" when the task has a block reference,
+ * otherwise the line-based "path:line"
+ */
+export function buildTaskId(filePath: string, lineNumber: number, blockId: string | null): string {
+  return blockId ? `${filePath}#^${blockId}` : `${filePath}:${lineNumber}`;
+}
+
 /**
  * Parse a single line into a Task object
  * Returns null if the line is not a task
@@ -262,25 +193,28 @@ export function parseTaskLine(
   line: string,
   file: TFile,
   lineNumber: number,
-  customStages: string[] = []
+  customStages: string[] = [],
+  statuses: TaskStatus[] = DEFAULT_TASK_STATUSES
 ): Task | null {
   const match = line.match(PATTERNS.TASK_LINE);
   if (!match) return null;
 
   const indent = match[1] ?? '';
-  const completed = match[2]?.toLowerCase() === 'x';
+  const status = getTaskStatus(match[2] ?? ' ', statuses);
   let taskContent = match[3] ?? '';
 
-  // Extract inline metadata (priority, recurrence, tags, dates)
+  // Extract inline metadata (priority, recurrence, tags, dates) in any supported format
   const { cleanText, metadata: inlineMetadata } = extractInlineMetadata(taskContent);
   taskContent = cleanText;
 
   // Initialize task metadata
   let taskData: ParsedMetadata = {
-    owner: null,
-    dueDate: null,
-    stage: null,
-    project: null,
+    owner: inlineMetadata.owner ?? null,
+    dueDate: inlineMetadata.dueDate ?? null,
+    scheduledDate: inlineMetadata.scheduledDate ?? null,
+    startDate: inlineMetadata.startDate ?? null,
+    stage: inlineMetadata.stage ?? null,
+    project: inlineMetadata.project ?? null,
     priority: inlineMetadata.priority ?? null,
     tags: inlineMetadata.tags ?? [],
     recurrence: inlineMetadata.recurrence ?? null,
@@ -289,7 +223,9 @@ export function parseTaskLine(
     blockedBy: inlineMetadata.blockedBy ?? [],
     blocks: inlineMetadata.blocks ?? [],
     estimate: inlineMetadata.estimate ?? null,
-    timeLogged: inlineMetadata.timeLogged ?? null
+    timeLogged: inlineMetadata.timeLogged ?? null,
+    blockId: inlineMetadata.blockId ?? null,
+    seriesId: inlineMetadata.seriesId ?? null
   };
 
   let displayText = taskContent;
@@ -305,31 +241,45 @@ export function parseTaskLine(
       ...taskData,
       ...parsedMetadata,
       // Preserve inline metadata that takes precedence
+      owner: taskData.owner ?? parsedMetadata.owner,
+      dueDate: taskData.dueDate ?? parsedMetadata.dueDate,
+      stage: taskData.stage ?? parsedMetadata.stage,
+      project: taskData.project ?? parsedMetadata.project,
+      scheduledDate: taskData.scheduledDate,
+      startDate: taskData.startDate,
       priority: taskData.priority ?? parsedMetadata.priority,
       tags: [...new Set([...taskData.tags, ...parsedMetadata.tags])],
       recurrence: taskData.recurrence ?? parsedMetadata.recurrence,
       completedDate: taskData.completedDate ?? parsedMetadata.completedDate,
       createdDate: taskData.createdDate ?? parsedMetadata.createdDate,
+      blockId: taskData.blockId,
+      seriesId: taskData.seriesId,
       blockedBy: [...new Set([...taskData.blockedBy, ...parsedMetadata.blockedBy])],
       blocks: [...new Set([...taskData.blocks, ...parsedMetadata.blocks])]
     };
   }
 
   return {
-    id: `${file.path}:${lineNumber}`,
+    id: buildTaskId(file.path, lineNumber, taskData.blockId),
     file,
     lineNumber,
+    blockId: taskData.blockId,
     text: displayText,
-    completed,
+    status: status.symbol,
+    completed: status.isDone,
     dueDate: taskData.dueDate,
+    scheduledDate: taskData.scheduledDate,
+    startDate: taskData.startDate,
     owner: taskData.owner,
-    stage: taskData.stage,
+    // A stage written on the line wins over the one implied by the checkbox
+    stage: taskData.stage ?? status.stage,
     project: taskData.project,
     completedDate: taskData.completedDate,
     rawLine: line,
     priority: taskData.priority,
     tags: taskData.tags,
     recurrence: taskData.recurrence,
+    seriesId: taskData.seriesId,
     parentId: null,
     children: [],
     depth: calculateIndentDepth(indent),
@@ -343,32 +293,132 @@ export function parseTaskLine(
 }
 
 /**
- * Parse all tasks from a file
+ * Lines Obsidian's metadata cache lists as tasks, or null when the file
+ * hasn't been indexed yet. Tasks in code blocks and frontmatter are never
+ * listed.
+ */
+export function getTaskLocations(app: App, file: TFile): TaskLocation[] | null {
+  const fileCache = app.metadataCache.getFileCache(file);
+  if (!fileCache) return null;
+
+  return (fileCache.listItems ?? [])
+    .filter(item => item.task !== undefined)
+    .map(({ position: { start } }) => ({ line: start.line, lineStart: start.offset - start.col }))
+    .sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Whether task locations still point at the same lines of the content.
+ * The metadata cache lags behind edits until Obsidian re-indexes the file,
+ * and an edit above a task moves where its line starts.
+ */
+function locationsMatch(lines: string[], locations: TaskLocation[]): boolean {
+  let line = 0;
+  let lineStart = 0;
+
+  for (const location of locations) {
+    if (location.line >= lines.length) return false;
+    while (line < location.line) {
+      lineStart += lines[line].length + 1;
+      line++;
+    }
+    if (lineStart !== location.lineStart) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Lines that can hold tasks: those outside frontmatter and fenced code blocks
+ */
+export function findCandidateLines(lines: string[]): number[] {
+  let start = 0;
+  if (lines.length > 0 && PATTERNS.FRONTMATTER_DELIMITER.test(lines[0])) {
+    const end = lines.findIndex((line, i) => i > 0 && PATTERNS.FRONTMATTER_DELIMITER.test(line));
+    if (end > 0) start = end + 1;
+  }
+
+  const candidates: number[] = [];
+  let fence: string | null = null;
+
+  for (let i = start; i < lines.length; i++) {
+    const match = lines[i].match(PATTERNS.CODE_FENCE);
+    if (fence) {
+      // A fence closes on a bare run of the same character, at least as long
+      if (match && match[1][0] === fence[0] && match[1].length >= fence.length && !match[2].trim()) {
+        fence = null;
+      }
+    } else if (match) {
+      fence = match[1];
+    } else {
+      candidates.push(i);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Parse all tasks from a file's content. Only `file.path` is read, so this
+ * also runs in the parser worker, where there is no vault. With task
+ * locations from the metadata cache only those lines are parsed, unless
+ * the content has changed under them.
+ */
+export function parseTasksFromContent(
+  content: string,
+  file: TFile,
+  customStages: string[] = [],
+  statuses: TaskStatus[] = DEFAULT_TASK_STATUSES,
+  locations: TaskLocation[] | null = null
+): Task[] {
+  const tasks: Task[] = [];
+  const lines = content.split('\n');
+  const lineNumbers = locations && locationsMatch(lines, locations)
+    ? locations.map(location => location.line)
+    : findCandidateLines(lines);
+
+  for (const i of lineNumbers) {
+    const task = parseTaskLine(lines[i], file, i, customStages, statuses);
+    if (task) {
+      tasks.push(task);
+    }
+  }
+
+  return tasks;
+}
+
+/**
+ * Parse a file's content into tasks without their file or hierarchy, which
+ * can't be sent between threads
+ */
+export function parseSerializedTasks(
+  source: ParseSource,
+  customStages: string[] = [],
+  statuses: TaskStatus[] = DEFAULT_TASK_STATUSES
+): SerializedTask[] {
+  return parseTasksFromContent(source.content, { path: source.path } as TFile, customStages, statuses, source.locations)
+    .map(({ file, parentId, children, ...task }) => task);
+}
+
+/**
+ * Parse all tasks from a file, reading it only when the metadata cache
+ * lists tasks in it or hasn't indexed it yet
  */
 export async function parseTasksFromFile(
   app: App,
   file: TFile,
   settings: TaskConsolidatorSettings
 ): Promise<Task[]> {
-  const tasks: Task[] = [];
-
   try {
-    const content = await app.vault.read(file);
-    const lines = content.split('\n');
+    const locations = getTaskLocations(app, file);
+    if (locations?.length === 0) return [];
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const task = parseTaskLine(line, file, i, settings.customStages);
-
-      if (task) {
-        tasks.push(task);
-      }
-    }
+    const content = await app.vault.read(file);
+    return parseTasksFromContent(content, file, settings.customStages, settings.taskStatuses, locations);
   } catch (error) {
     console.error(`Error parsing tasks from ${file.path}:`, error);
+    return [];
   }
-
-  return tasks;
 }
 
 /**
@@ -0,0 +1,28 @@
+import { ParseRequest, ParseResponse } from '../types';
+import { parseSerializedTasks } from './taskParser';
+
+// ========================================
+// Task Parser Worker
+// ========================================
+
+/**
+ * Entry point of the parser worker, bundled separately and inlined into the
+ * plugin by the `worker:` import. It must not import from 'obsidian'.
+ */
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<ParseRequest>) => void) | null;
+  postMessage(message: ParseResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = (event) => {
+  const { id, files, customStages, statuses } = event.data;
+
+  try {
+    const tasks = files.map(file => parseSerializedTasks(file, customStages, statuses));
+    scope.postMessage({ id, tasks });
+  } catch (error) {
+    scope.postMessage({ id, tasks: [], error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,164 @@
+import { TaskFormat } from '../types';
+import { PATTERNS } from '../types/constants';
+import { TASK_FORMAT_ADAPTERS } from './taskFormats';
+
+// ========================================
+// Token Types
+// ========================================
+
+export type TaskTokenKind =
+  | 'metadata'
+  | 'completedDate'
+  | 'createdDate'
+  | 'dueDate'
+  | 'scheduledDate'
+  | 'startDate'
+  | 'owner'
+  | 'project'
+  | 'stage'
+  | 'priority'
+  | 'recurrence'
+  | 'blockedBy'
+  | 'blocks'
+  | 'estimate'
+  | 'timeLogged'
+  | 'tag'
+  | 'seriesId'
+  | 'blockId';
+
+/**
+ * A recognised field inside the content of a task line.
+ * Offsets are relative to the content (the text after the checkbox).
+ */
+export interface TaskToken {
+  kind: TaskTokenKind;
+  format: TaskFormat;
+  start: number;
+  end: number;
+  value: string;
+}
+
+/**
+ * A task line split into its checkbox prefix and content
+ */
+export interface TaskLineParts {
+  indent: string;
+  prefix: string;
+  status: string;
+  statusOffset: number;
+  content: string;
+}
+
+// ========================================
+// Patterns
+// ========================================
+
+const METADATA_BLOCK = /^\*\*(.+?):\*\*/;
+
+// ========================================
+// Line Splitting
+// ========================================
+
+/**
+ * Split a task line into prefix ("  - [x] ") and content
+ * Returns null if the line is not a task
+ */
+export function splitTaskLine(line: string): TaskLineParts | null {
+  const match = line.match(PATTERNS.TASK_LINE);
+  if (!match) return null;
+
+  const content = match[3] ?? '';
+  const prefix = line.slice(0, line.length - content.length);
+
+  return {
+    indent: match[1] ?? '',
+    prefix,
+    status: match[2] ?? ' ',
+    statusOffset: prefix.indexOf('[') + 1,
+    content
+  };
+}
+
+// ========================================
+// Tokenizing
+// ========================================
+
+/**
+ * Find every metadata token in task content, ordered by position.
+ * The `**meta:**` block is returned as a 'metadata' token; inline tokens
+ * written inside the block are returned as well and overlap it.
+ */
+export function tokenizeTaskContent(content: string): TaskToken[] {
+  const tokens: TaskToken[] = [];
+
+  // Formats and their matchers run in order; a match overlapping an
+  // earlier token is ignored
+  for (const format of TASK_FORMAT_ADAPTERS) {
+    for (const { kind, pattern } of format.matchers) {
+      const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+      const globalPattern = new RegExp(pattern.source, flags);
+
+      for (const match of content.matchAll(globalPattern)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (tokens.some(t => start < t.end && end > t.start)) continue;
+        const value = format.readValue(kind, (match[1] ?? '').trim());
+        tokens.push({ kind, format: format.id, start, end, value });
+      }
+    }
+  }
+
+  tokens.sort((a, b) => a.start - b.start);
+
+  const metadata = findMetadataBlock(content, tokens);
+  if (metadata) {
+    tokens.push(metadata);
+    tokens.sort((a, b) => a.start - b.start || (a.kind === 'metadata' ? -1 : 1));
+  }
+
+  return tokens;
+}
+
+/**
+ * Locate the `**meta:**` block. Like the parser, the block only counts when
+ * nothing but whitespace and inline tokens precede it.
+ */
+function findMetadataBlock(content: string, tokens: TaskToken[]): TaskToken | null {
+  let position = 0;
+
+  for (;;) {
+    while (position < content.length && /\s/.test(content[position])) {
+      position++;
+    }
+    const token = tokens.find(t => t.start === position);
+    if (!token) break;
+    position = token.end;
+  }
+
+  const match = content.slice(position).match(METADATA_BLOCK);
+  if (!match) return null;
+
+  const start = position;
+  const end = position + match[0].length;
+  const inner = removeTokens(content.slice(start + 2, end - 3), tokens
+    .filter(t => t.start >= start + 2 && t.end <= end - 3)
+    .map(t => ({ ...t, start: t.start - start - 2, end: t.end - start - 2 })));
+
+  return { kind: 'metadata', format: 'default', start, end, value: inner.trim() };
+}
+
+/**
+ * Remove token text from content, leaving the surrounding text untouched
+ */
+export function removeTokens(content: string, tokens: TaskToken[]): string {
+  let result = '';
+  let position = 0;
+
+  for (const token of [...tokens].sort((a, b) => a.start - b.start)) {
+    if (token.start < position) continue;
+    result += content.slice(position, token.start);
+    position = token.end;
+  }
+
+  return result + content.slice(position);
+}
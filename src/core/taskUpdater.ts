@@ -1,24 +1,47 @@
-import { App, TFile, Notice, Modal, ButtonComponent } from 'obsidian';
+import { App, TFile, Notice, Modal, ButtonComponent, Events, EventRef } from 'obsidian';
 import {
   Task,
   TaskConsolidatorSettings,
   TaskUpdateResult,
   BulkOperationResult,
   TaskCreateOptions,
+  TaskMoveTarget,
+  TaskMoveHeading,
+  TaskUpdates,
+  TaskStatus,
   UndoEntry,
-  Recurrence,
-  Priority
+  UndoLineChange,
+  UndoGroup,
+  UndoHistory
 } from '../types';
 import {
   validateTaskText,
   validateOwner,
   validateDate,
   validateProject,
-  validateStage,
-  validateLineNumber
+  validateStage
 } from '../utils/validation';
-import { sanitizeOwner, sanitizeProject, sanitizeTaskText } from '../utils/textUtils';
-import { formatDateToISO, getToday, addDays, addWeeks, addMonths, addYears } from '../utils/dateUtils';
+import { PATTERNS } from '../types/constants';
+import { sanitizeOwner, sanitizeProject, sanitizeTaskText, createBlockId, calculateIndentDepth } from '../utils/textUtils';
+import { createShortTaskId } from '../utils/dependencyUtils';
+import { getTaskStatus, getNextTaskStatus, getDoneStatus, getTodoStatus } from '../utils/statusUtils';
+import { formatDateToISO, getToday } from '../utils/dateUtils';
+import {
+  getNextOccurrence,
+  formatRecurrence,
+  skipOccurrence,
+  moveOccurrence,
+  dropPastExceptions
+} from '../utils/recurrenceUtils';
+import { parseTaskLine, buildTaskHierarchy, findCandidateLines } from './taskParser';
+import { rewriteTaskLine, replaceDependencyIds, replaceWrittenField, WrittenField } from './taskLineWriter';
+import { locateTask, findLineNear, TaskCandidate } from './taskLocator';
+import { getTaskFormat } from './taskFormats';
+import { TaskTokenKind } from './taskTokenizer';
+
+const TASK_CHANGED_ERROR = 'Task has been modified. Please refresh and try again.';
+
+type HistoryDirection = 'undo' | 'redo';
 
 // ========================================
 // Confirm Delete Modal
@@ -66,21 +89,89 @@ class ConfirmDeleteModal extends Modal {
   }
 }
 
+// ========================================
+// Choose Task Match Modal
+// ========================================
+
+/**
+ * Asks which line a task is now when its file changed and several lines
+ * match it equally well
+ */
+class ChooseTaskMatchModal extends Modal {
+  private task: Task;
+  private candidates: TaskCandidate[];
+  private resolve: (task: Task | null) => void;
+  private resolved = false;
+
+  constructor(app: App, task: Task, candidates: TaskCandidate[], resolve: (task: Task | null) => void) {
+    super(app);
+    this.task = task;
+    this.candidates = candidates;
+    this.resolve = resolve;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: 'Which task is this?' });
+    contentEl.createEl('p', {
+      text: `"${this.task.text}" changed in ${this.task.file.basename} since it was loaded. Pick the line it is now on.`
+    });
+
+    const list = contentEl.createDiv({ cls: 'task-match-candidates' });
+    for (const candidate of this.candidates) {
+      new ButtonComponent(list)
+        .setButtonText(`Line ${candidate.task.lineNumber + 1}: ${candidate.task.rawLine.trim()}`)
+        .onClick(() => this.choose(candidate.task));
+    }
+
+    const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+    new ButtonComponent(buttonContainer)
+      .setButtonText('Cancel')
+      .onClick(() => this.choose(null));
+  }
+
+  onClose(): void {
+    if (!this.resolved) {
+      this.resolve(null);
+    }
+    this.contentEl.empty();
+  }
+
+  private choose(task: Task | null): void {
+    this.resolved = true;
+    this.resolve(task);
+    this.close();
+  }
+}
+
 // ========================================
 // Task Updater Class
 // ========================================
 
-export class TaskUpdater {
+export class TaskUpdater extends Events {
   private app: App;
   private settings: TaskConsolidatorSettings;
   private undoStack: UndoEntry[] = [];
+  private redoStack: UndoEntry[] = [];
+  private nextUndoId = 1;
   private readonly maxUndoEntries = 50;
 
   constructor(app: App, settings: TaskConsolidatorSettings) {
+    super();
     this.app = app;
     this.settings = settings;
   }
 
+  /**
+   * Subscribe to changes of the undo and redo history, or to the files
+   * this updater writes
+   */
+  on(name: 'history-changed', callback: () => unknown, ctx?: unknown): EventRef;
+  on(name: 'file-written', callback: (file: TFile) => unknown, ctx?: unknown): EventRef;
+  on(name: string, callback: (...data: any[]) => unknown, ctx?: unknown): EventRef {
+    return super.on(name, callback, ctx);
+  }
+
   /**
    * Update settings reference
    */
@@ -89,92 +180,86 @@ export class TaskUpdater {
   }
 
   /**
-   * Toggle a task's completion status
+   * Cycle a task's checkbox to the next status in the registry
    */
   async toggleTask(task: Task): Promise<TaskUpdateResult> {
-    const newCompleted = !task.completed;
-    return this.updateTask(task, {
-      completed: newCompleted,
-      stage: newCompleted ? 'Completed' : (task.stage === 'Completed' ? null : task.stage)
-    });
+    const next = getNextTaskStatus(task.status, this.settings.taskStatuses);
+    return this.updateTask(task, this.buildStatusUpdates(task, next));
+  }
+
+  /**
+   * Updates that move a task to a status. The stage moves along with it,
+   * dropping one the old status implied.
+   */
+  private buildStatusUpdates(task: Task, next: TaskStatus): TaskUpdates {
+    const current = getTaskStatus(task.status, this.settings.taskStatuses);
+    const updates: TaskUpdates = { status: next.symbol };
+
+    if (next.stage) {
+      updates.stage = next.stage;
+    } else if (current.stage && task.stage === current.stage) {
+      updates.stage = null;
+    }
+
+    return updates;
   }
 
   /**
-   * Update a task with new values
+   * Update a task with new values. Pass `group` to undo the edit as part
+   * of a larger operation.
    */
   async updateTask(
     task: Task,
-    updates: Partial<{
-      completed: boolean;
-      text: string;
-      owner: string | null;
-      dueDate: string | null;
-      stage: string | null;
-      project: string | null;
-      priority: string | null;
-      tags: string[];
-    }>
+    updates: TaskUpdates,
+    group?: UndoGroup
   ): Promise<TaskUpdateResult> {
-    try {
-      const abstractFile = this.app.vault.getAbstractFileByPath(task.file.path);
-      if (!abstractFile || !(abstractFile instanceof TFile)) {
-        return { success: false, error: 'File not found' };
-      }
-
-      const content = await this.app.vault.read(abstractFile);
-      const lines = content.split('\n');
-
-      // Validate line number
-      const lineValidation = validateLineNumber(task.lineNumber, lines.length);
-      if (!lineValidation.isValid) {
-        return { success: false, error: lineValidation.error };
-      }
-
-      // Check if line has changed
-      const currentLine = lines[task.lineNumber];
-      if (currentLine !== task.rawLine) {
-        return {
-          success: false,
-          error: 'Task has been modified. Please refresh and try again.'
-        };
-      }
+    // A next occurrence created on completion is undone along with it
+    return this.recordUndoGroup(`Edit "${task.text}"`, g => this.applyTaskUpdates(task, updates, g), group);
+  }
 
-      // Build the updated line
-      const updatedLine = this.buildUpdatedLine(task, updates);
+  /**
+   * Apply updates, given as they are or worked out from the task as its
+   * line now reads
+   */
+  private async applyTaskUpdates(
+    task: Task,
+    updates: TaskUpdates | ((current: Task) => TaskUpdates),
+    group: UndoGroup
+  ): Promise<TaskUpdateResult> {
+    try {
+      const { file, value: { updatedTask, changes } } = await this.editTaskFile(task, (current, lines, file) => {
+        // Built from the line as it now reads, so edits made elsewhere are kept
+        const updatedLine = this.buildUpdatedLine(current, typeof updates === 'function' ? updates(current) : updates);
+        const updatedTask = this.reparseTask(current, updatedLine);
+        lines[current.lineNumber] = updatedLine;
+
+        const changes: UndoLineChange[] = [{
+          filePath: file.path,
+          lineNumber: current.lineNumber,
+          originalLine: current.rawLine,
+          newLine: updatedLine
+        }];
+
+        // Parent/subtask completion goes into the same write and undo entry
+        if (updatedTask.completed !== current.completed) {
+          changes.push(...this.applyParentCompletionBehavior(file, lines, current.lineNumber, updatedTask.completed));
+        }
 
-      // Save undo entry
-      this.pushUndo({
-        filePath: task.file.path,
-        lineNumber: task.lineNumber,
-        originalLine: currentLine,
-        newLine: updatedLine,
-        timestamp: Date.now()
+        return { updatedTask, changes };
       });
 
-      // Update the file
-      lines[task.lineNumber] = updatedLine;
-      const newContent = lines.join('\n');
-      await this.app.vault.modify(abstractFile, newContent);
+      group.changes.push(...changes);
 
-      // Handle recurring task
-      if (updates.completed && task.recurrence && !task.completed) {
-        await this.createNextRecurrence(task);
+      // Handle recurring tasks
+      for (const change of changes) {
+        if (change.originalLine === null || change.newLine === null) continue;
+        const before = this.parseLine(change.originalLine, file, change.lineNumber);
+        const after = this.parseLine(change.newLine, file, change.lineNumber);
+        if (before?.recurrence && !before.completed && after?.completed) {
+          await this.createNextRecurrence(before, after.completedDate, group);
+        }
       }
 
-      // Build the updated task object with proper typing
-      const updatedTask: Task = {
-        ...task,
-        rawLine: updatedLine,
-        completed: updates.completed ?? task.completed,
-        text: updates.text ?? task.text,
-        owner: updates.owner !== undefined ? updates.owner : task.owner,
-        dueDate: updates.dueDate !== undefined ? updates.dueDate : task.dueDate,
-        stage: updates.stage !== undefined ? updates.stage : task.stage,
-        project: updates.project !== undefined ? updates.project : task.project,
-        priority: updates.priority !== undefined ? (updates.priority as Priority | null) : task.priority,
-        tags: updates.tags ?? task.tags
-      };
-
       return {
         success: true,
         task: updatedTask
@@ -187,85 +272,319 @@ export class TaskUpdater {
   }
 
   /**
-   * Build an updated task line from task and updates
+   * Edit a task's file in one atomic write. When the task's line moved or
+   * changed since it was parsed (e.g. through Sync or another pane) it is
+   * found again first, asking the user only if several lines match equally
+   * well. `edit` gets the task as its line now reads, changes `lines` in
+   * place and returns a value that is passed back.
    */
-  private buildUpdatedLine(
+  private async editTaskFile<T>(
     task: Task,
-    updates: Partial<{
-      completed: boolean;
-      text: string;
-      owner: string | null;
-      dueDate: string | null;
-      stage: string | null;
-      project: string | null;
-      priority: string | null;
-      tags: string[];
-    }>
-  ): string {
-    const completed = updates.completed ?? task.completed;
-    const checkbox = completed ? 'x' : ' ';
-
-    const owner = updates.owner !== undefined ? sanitizeOwner(updates.owner) : task.owner;
-    const dueDate = updates.dueDate !== undefined ? updates.dueDate : task.dueDate;
-    const stage = updates.stage !== undefined ? updates.stage : task.stage;
-    const project = updates.project !== undefined ? sanitizeProject(updates.project) : task.project;
-    const priority = updates.priority !== undefined ? updates.priority : task.priority;
-    const text = updates.text !== undefined ? sanitizeTaskText(updates.text) : task.text;
-    const tags = updates.tags !== undefined ? updates.tags : task.tags;
-
-    // Build metadata portion
-    const metadataParts: string[] = [];
-    if (owner) metadataParts.push(owner);
-    if (dueDate) metadataParts.push(dueDate);
-    if (stage) metadataParts.push(stage);
-    if (project) metadataParts.push(project);
+    edit: (current: Task, lines: string[], file: TFile) => T
+  ): Promise<{ file: TFile; value: T }> {
+    const file = this.app.vault.getAbstractFileByPath(task.file.path);
+    if (!(file instanceof TFile)) {
+      throw new Error('File not found');
+    }
 
-    // Build the task line
-    let taskLine = text;
+    const target = await this.findTask(task, (await this.app.vault.read(file)).split('\n'));
 
-    if (metadataParts.length > 0) {
-      taskLine = `**${metadataParts.join(' | ')}:** ${text}`;
-    }
+    let result: { value: T } | null = null;
+    await this.processFile(file, (data) => {
+      // The file may have changed again since it was read
+      const lines = data.split('\n');
+      const located = locateTask(target, lines, this.settings.customStages, this.settings.taskStatuses);
+      if (located.status !== 'found') {
+        throw new Error(TASK_CHANGED_ERROR);
+      }
+
+      result = { value: edit(located.task, lines, file) };
+      return lines.join('\n');
+    });
+
+    return { file, value: result!.value };
+  }
+
+  /**
+   * Rewrite a file's content in one atomic write and let listeners know
+   */
+  private async processFile(file: TFile, fn: (data: string) => string): Promise<void> {
+    await this.app.vault.process(file, fn);
+    this.trigger('file-written', file);
+  }
+
+  /**
+   * Find a task in its file's current lines, asking the user to pick when
+   * the match is ambiguous
+   */
+  private async findTask(task: Task, lines: string[]): Promise<Task> {
+    const located = locateTask(task, lines, this.settings.customStages, this.settings.taskStatuses);
+    if (located.status === 'found') return located.task;
+    if (located.status === 'missing') throw new Error(TASK_CHANGED_ERROR);
 
-    // Add priority
-    if (priority) {
-      taskLine += ` [priority:${priority}]`;
+    const chosen = await new Promise<Task | null>((resolve) => {
+      new ChooseTaskMatchModal(this.app, task, located.candidates, resolve).open();
+    });
+    if (!chosen) throw new Error('Edit cancelled');
+    return chosen;
+  }
+
+  /**
+   * Build an updated task line from task and updates
+   */
+  private buildUpdatedLine(task: Task, updates: TaskUpdates): string {
+    return rewriteTaskLine(task, updates, this.settings.customStages, this.settings.taskStatuses);
+  }
+
+  /**
+   * Parse a line with the configured stages and statuses
+   */
+  private parseLine(line: string, file: TFile, lineNumber: number): Task | null {
+    return parseTaskLine(line, file, lineNumber, this.settings.customStages, this.settings.taskStatuses);
+  }
+
+  /**
+   * Re-parse a written line so the returned task matches the file
+   */
+  private reparseTask(task: Task, line: string): Task {
+    const parsed = this.parseLine(line, task.file, task.lineNumber);
+    return parsed
+      ? { ...parsed, parentId: task.parentId, children: task.children }
+      : { ...task, rawLine: line };
+  }
+
+  /**
+   * Complete or reopen related tasks according to parentCompletionBehavior:
+   * 'auto' keeps each parent in step with its subtasks, 'cascade' completes
+   * every open subtask of a completed parent. Edits `lines` in place and
+   * returns the changes made.
+   */
+  private applyParentCompletionBehavior(
+    file: TFile,
+    lines: string[],
+    lineNumber: number,
+    completed: boolean
+  ): UndoLineChange[] {
+    const behavior = this.settings.parentCompletionBehavior;
+    if (behavior === 'manual') return [];
+
+    // Rebuild the file's hierarchy from the lines as they now stand;
+    // example tasks in code blocks and frontmatter are not tasks
+    const tasks: Task[] = [];
+    for (const i of findCandidateLines(lines)) {
+      const task = this.parseLine(lines[i], file, i);
+      if (task) tasks.push(task);
+    }
+    buildTaskHierarchy(tasks);
+
+    const changed = tasks.find(t => t.lineNumber === lineNumber);
+    if (!changed) return [];
+
+    const targets: Task[] = [];
+    if (behavior === 'cascade') {
+      if (completed) {
+        const stack = [...changed.children];
+        while (stack.length > 0) {
+          const child = stack.pop()!;
+          if (!child.completed) targets.push(child);
+          stack.push(...child.children);
+        }
+      }
+    } else {
+      // Walk up while each parent's state no longer matches its subtasks
+      const byId = new Map(tasks.map(t => [t.id, t]));
+      const newState = new Map<Task, boolean>();
+      const isDone = (t: Task) => newState.get(t) ?? t.completed;
+      let parent = changed.parentId ? byId.get(changed.parentId) : undefined;
+
+      while (parent) {
+        const allDone = parent.children.every(isDone);
+        if (allDone !== completed || parent.completed === completed) break;
+
+        targets.push(parent);
+        newState.set(parent, allDone);
+        parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+      }
     }
 
-    // Add recurrence
-    if (task.recurrence) {
-      taskLine += ` [repeat:${task.recurrence.rawString ?? task.recurrence.type}]`;
+    const status = completed ? getDoneStatus(this.settings.taskStatuses) : getTodoStatus(this.settings.taskStatuses);
+    return targets.map(target => {
+      const newLine = this.buildUpdatedLine(target, this.buildStatusUpdates(target, status));
+      lines[target.lineNumber] = newLine;
+      return {
+        filePath: file.path,
+        lineNumber: target.lineNumber,
+        originalLine: target.rawLine,
+        newLine
+      };
+    });
+  }
+
+  /**
+   * Give a task a stable ^block ID if it doesn't have one yet. Pass the
+   * group of the edit that needs the ID, so undoing the edit removes the
+   * ID along with it.
+   */
+  async ensureBlockId(task: Task, group?: UndoGroup): Promise<TaskUpdateResult> {
+    if (task.blockId) {
+      return { success: true, task };
     }
 
-    // Add tags
-    if (tags.length > 0) {
-      taskLine += ' ' + tags.map(t => `#${t}`).join(' ');
+    try {
+      const { file, value: { originalLine, updatedTask } } = await this.editTaskFile(task, (current, lines) => {
+        // Block IDs only need to be unique within the file
+        const content = lines.join('\n');
+        let blockId = createBlockId();
+        while (content.includes(`^${blockId}`)) {
+          blockId = createBlockId();
+        }
+
+        const updatedLine = this.buildUpdatedLine(current, { blockId });
+        lines[current.lineNumber] = updatedLine;
+        return { originalLine: current.rawLine, updatedTask: this.reparseTask(current, updatedLine) };
+      });
+
+      this.pushUndo(`Add block ID to "${task.text}"`, [{
+        filePath: file.path,
+        lineNumber: updatedTask.lineNumber,
+        originalLine,
+        newLine: updatedTask.rawLine
+      }], group);
+      return { success: true, task: updatedTask };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error adding block ID:', error);
+      return { success: false, error: message };
     }
+  }
 
-    // Preserve estimate
-    if (task.estimate) {
-      taskLine += ` [estimate:${task.estimate}]`;
+  /**
+   * Add a dependency link from a task to another task
+   */
+  async addDependency(
+    task: Task,
+    target: Task,
+    type: 'blockedBy' | 'blocks',
+    group?: UndoGroup
+  ): Promise<TaskUpdateResult> {
+    const targetId = createShortTaskId(target.id);
+    if (task[type].includes(targetId)) {
+      return { success: true, task };
     }
 
-    // Preserve time logged
-    if (task.timeLogged) {
-      taskLine += ` [logged:${task.timeLogged}]`;
+    return this.updateTask(task, { [type]: [...task[type], targetId] }, group);
+  }
+
+  /**
+   * Remove a dependency ID from a task, e.g. one that no longer resolves.
+   * The ID list is read from the current line, so removals from the same
+   * task made in a row all stick.
+   */
+  async removeDependency(
+    task: Task,
+    type: 'blockedBy' | 'blocks',
+    id: string,
+    group?: UndoGroup
+  ): Promise<TaskUpdateResult> {
+    return this.recordUndoGroup(`Edit "${task.text}"`, g =>
+      this.applyTaskUpdates(task, current => ({ [type]: current[type].filter(other => other !== id) }), g),
+      group
+    );
+  }
+
+  /**
+   * Replace or remove one field as written on a task's line, including
+   * values updateTask can't reach because the parser dropped them, such
+   * as a malformed date
+   */
+  async replaceTaskField(
+    task: Task,
+    field: WrittenField,
+    value: string | null,
+    group?: UndoGroup
+  ): Promise<TaskUpdateResult> {
+    try {
+      const { value: { updatedTask, change } } = await this.editTaskFile(task, (current, lines, file) => {
+        const updatedLine = replaceWrittenField(current.rawLine, field, value, this.settings.customStages);
+        if (updatedLine === null) {
+          throw new Error(TASK_CHANGED_ERROR);
+        }
+
+        lines[current.lineNumber] = updatedLine;
+        const change: UndoLineChange = {
+          filePath: file.path,
+          lineNumber: current.lineNumber,
+          originalLine: current.rawLine,
+          newLine: updatedLine
+        };
+        return { updatedTask: this.reparseTask(current, updatedLine), change };
+      });
+
+      this.pushUndo(`Edit "${task.text}"`, [change], group);
+      return { success: true, task: updatedTask };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error replacing task field:', error);
+      return { success: false, error: message };
     }
+  }
+
+  /**
+   * Rewrite the dependency IDs of tasks where they stand, with one write
+   * per file. Not recorded for undo, like ensureBlockId: it keeps references
+   * working after a rename.
+   */
+  async replaceDependencyReferences(tasks: Task[], replace: (id: string) => string): Promise<BulkOperationResult> {
+    const result: BulkOperationResult = { successful: 0, failed: 0, errors: [] };
 
-    // Add completion date if newly completed
-    if (completed && !task.completed) {
-      const today = formatDateToISO(getToday());
-      taskLine += ` [done:${today}]`;
-    } else if (task.completedDate && completed) {
-      taskLine += ` [done:${task.completedDate}]`;
+    const byFile = new Map<string, Task[]>();
+    for (const task of tasks) {
+      byFile.set(task.file.path, [...(byFile.get(task.file.path) ?? []), task]);
     }
 
-    // Preserve created date
-    if (task.createdDate) {
-      taskLine += ` [created:${task.createdDate}]`;
+    for (const [path, fileTasks] of byFile) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) {
+        result.failed += fileTasks.length;
+        result.errors.push(`${path}: File not found`);
+        continue;
+      }
+
+      try {
+        let changed = 0;
+        await this.processFile(file, (data) => {
+          const lines = data.split('\n');
+
+          // Runs in the background after a rename, so a task that can't be
+          // found for certain is reported rather than asked about
+          for (const task of fileTasks) {
+            const located = locateTask(task, lines, this.settings.customStages, this.settings.taskStatuses);
+            if (located.status !== 'found') {
+              result.failed++;
+              result.errors.push(`${task.text}: ${TASK_CHANGED_ERROR}`);
+              continue;
+            }
+
+            const current = located.task;
+            const updated = replaceDependencyIds(current.rawLine, replace);
+            if (updated !== current.rawLine) {
+              lines[current.lineNumber] = updated;
+              changed++;
+            }
+          }
+
+          return lines.join('\n');
+        });
+        result.successful += changed;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('Error updating dependency references:', error);
+        result.failed += fileTasks.length;
+        result.errors.push(`${path}: ${message}`);
+      }
     }
 
-    return `${task.indent}- [${checkbox}] ${taskLine}`;
+    return result;
   }
 
   /**
@@ -274,7 +593,8 @@ export class TaskUpdater {
   async createTask(
     file: TFile,
     text: string,
-    options: TaskCreateOptions = {}
+    options: TaskCreateOptions = {},
+    group?: UndoGroup
   ): Promise<TaskUpdateResult> {
     try {
       // Validate task text
@@ -312,46 +632,31 @@ export class TaskUpdater {
         }
       }
 
-      // Build metadata
-      const metadataParts: string[] = [];
-      if (options.owner) metadataParts.push(sanitizeOwner(options.owner)!);
-      if (options.dueDate) metadataParts.push(options.dueDate);
-      if (options.stage) metadataParts.push(options.stage);
-      if (options.project) metadataParts.push(sanitizeProject(options.project)!);
-
-      // Build task line
-      let taskLine = sanitizeTaskText(text);
-
-      if (metadataParts.length > 0) {
-        taskLine = `**${metadataParts.join(' | ')}:** ${taskLine}`;
-      }
-
-      if (options.priority) {
-        taskLine += ` [priority:${options.priority}]`;
-      }
-
-      if (options.tags && options.tags.length > 0) {
-        taskLine += ' ' + options.tags.map(t => `#${t}`).join(' ');
-      }
-
-      // Add created date
-      const today = formatDateToISO(getToday());
-      taskLine += ` [created:${today}]`;
+      const fullLine = this.buildNewTaskLine(text, options);
 
-      const fullLine = `- [ ] ${taskLine}`;
+      // Insert against the file as it reads at the moment of writing
+      let insertAt = 0;
+      let previousLine: string | undefined;
+      await this.processFile(file, (data) => {
+        const lines = data.split('\n');
 
-      // Read file and insert line
-      const content = await this.app.vault.read(file);
-      const lines = content.split('\n');
+        insertAt = options.atLine ?? lines.length;
+        if (insertAt < 0 || insertAt > lines.length) {
+          throw new Error(`Line number ${insertAt} is out of range (0-${lines.length})`);
+        }
+        previousLine = lines[insertAt - 1];
+        lines.splice(insertAt, 0, fullLine);
 
-      const insertAt = options.atLine ?? lines.length;
-      if (insertAt < 0 || insertAt > lines.length) {
-        return { success: false, error: `Line number ${insertAt} is out of range (0-${lines.length})` };
-      }
-      lines.splice(insertAt, 0, fullLine);
+        return lines.join('\n');
+      });
 
-      const newContent = lines.join('\n');
-      await this.app.vault.modify(file, newContent);
+      this.pushUndo(`Create "${sanitizeTaskText(text)}"`, [{
+        filePath: file.path,
+        lineNumber: insertAt,
+        originalLine: null,
+        newLine: fullLine,
+        previousLine
+      }], group);
 
       new Notice('Task created');
       return { success: true };
@@ -362,6 +667,64 @@ export class TaskUpdater {
     }
   }
 
+  /**
+   * Build the line for a new task in the configured task format
+   */
+  private buildNewTaskLine(text: string, options: TaskCreateOptions): string {
+    const format = getTaskFormat(this.settings.newTaskFormat);
+    const fields: Array<[TaskTokenKind, string | undefined]> = [
+      ['owner', sanitizeOwner(options.owner) ?? undefined],
+      ['dueDate', options.dueDate],
+      ['stage', options.stage],
+      ['project', sanitizeProject(options.project) ?? undefined]
+    ];
+
+    // Fields the format can't write inline go in the **meta:** block
+    const metadataParts: string[] = [];
+    const inlineFields: string[] = [];
+    for (const [kind, value] of fields) {
+      if (!value) continue;
+      const inline = format.writeField(kind, value);
+      if (inline) inlineFields.push(inline);
+      else metadataParts.push(value);
+    }
+
+    // Build task line
+    let taskLine = sanitizeTaskText(text);
+
+    if (metadataParts.length > 0) {
+      taskLine = `**${metadataParts.join(' | ')}:** ${taskLine}`;
+    }
+
+    if (options.priority) {
+      taskLine += ` ${format.writeField('priority', options.priority)}`;
+    }
+
+    if (options.tags && options.tags.length > 0) {
+      taskLine += ' ' + options.tags.map(t => format.writeField('tag', t)).join(' ');
+    }
+
+    if (options.recurrence) {
+      taskLine += ` ${format.writeField('recurrence', options.recurrence)}`;
+    }
+
+    if (options.seriesId) {
+      const seriesField = format.writeField('seriesId', options.seriesId) ??
+        getTaskFormat('default').writeField('seriesId', options.seriesId);
+      taskLine += ` ${seriesField}`;
+    }
+
+    if (inlineFields.length > 0) {
+      taskLine += ' ' + inlineFields.join(' ');
+    }
+
+    // Add created date
+    const today = formatDateToISO(getToday());
+    taskLine += ` ${format.writeField('createdDate', today)}`;
+
+    return `- [ ] ${taskLine}`;
+  }
+
   /**
    * Prompt user to confirm task deletion
    */
@@ -374,36 +737,26 @@ export class TaskUpdater {
   /**
    * Delete a task
    */
-  async deleteTask(task: Task): Promise<TaskUpdateResult> {
+  async deleteTask(task: Task, group?: UndoGroup): Promise<TaskUpdateResult> {
     try {
       if (this.settings.confirmDestructiveActions) {
         const confirmed = await this.confirmDelete(task);
         if (!confirmed) return { success: false, error: 'Delete cancelled' };
       }
-      const content = await this.app.vault.read(task.file);
-      const lines = content.split('\n');
-
-      // Check if line has changed
-      if (lines[task.lineNumber] !== task.rawLine) {
-        return {
-          success: false,
-          error: 'Task has been modified. Please refresh and try again.'
-        };
-      }
-
-      // Save undo entry
-      this.pushUndo({
-        filePath: task.file.path,
-        lineNumber: task.lineNumber,
-        originalLine: task.rawLine,
-        newLine: '',
-        timestamp: Date.now()
+      const { file, value: { deleted, previousLine } } = await this.editTaskFile(task, (current, lines) => {
+        const previousLine = lines[current.lineNumber - 1];
+        lines.splice(current.lineNumber, 1);
+        return { deleted: current, previousLine };
       });
 
-      // Remove the line
-      lines.splice(task.lineNumber, 1);
-      const newContent = lines.join('\n');
-      await this.app.vault.modify(task.file, newContent);
+      // Save undo entry
+      this.pushUndo(`Delete "${deleted.text}"`, [{
+        filePath: file.path,
+        lineNumber: deleted.lineNumber,
+        originalLine: deleted.rawLine,
+        newLine: null,
+        previousLine
+      }], group);
 
       return { success: true };
     } catch (error) {
@@ -413,130 +766,693 @@ export class TaskUpdater {
     }
   }
 
+  // ========================================
+  // Move Task
+  // ========================================
+
   /**
-   * Create the next occurrence of a recurring task
+   * Move a task together with the lines nested under it (subtasks and
+   * notes) to the end of a heading's section, or of a file, re-indented to
+   * the top level. Dependency references to the moved tasks, and to tasks
+   * whose line numbers shift with the move, follow them in the same undo
+   * step; `allTasks` tells which files may hold references.
    */
-  private async createNextRecurrence(task: Task): Promise<void> {
+  async moveTask(task: Task, target: TaskMoveTarget, allTasks: Task[], group?: UndoGroup): Promise<TaskUpdateResult> {
+    return this.recordUndoGroup(`Move "${task.text}"`, g => this.applyMoveTask(task, target, allTasks, g), group);
+  }
+
+  private async applyMoveTask(
+    task: Task,
+    target: TaskMoveTarget,
+    allTasks: Task[],
+    group: UndoGroup
+  ): Promise<TaskUpdateResult> {
+    try {
+      const targetFile = this.app.vault.getAbstractFileByPath(target.file.path);
+      if (!(targetFile instanceof TFile)) {
+        throw new Error('Target file not found');
+      }
+
+      // Check the target before taking anything out of the source
+      if (target.heading) {
+        const targetLines = (await this.app.vault.read(targetFile)).split('\n');
+        if (this.findHeadingLine(targetLines, target.heading) === -1) {
+          throw new Error(`Heading "${target.heading.text}" not found in ${targetFile.basename}`);
+        }
+      }
+
+      const sameFile = targetFile.path === task.file.path;
+      // Line-based IDs change with the move, and block IDs with the file
+      const idMap = new Map<string, string>();
+
+      const { file: sourceFile, value: moved } = await this.editTaskFile(task, (current, lines, file) => {
+        const before = [...lines];
+        const end = this.getTaskBlockEnd(lines, current);
+        const original = lines.slice(current.lineNumber, end);
+        const previousLine = lines[current.lineNumber - 1];
+        lines.splice(current.lineNumber, original.length);
+
+        const changes: UndoLineChange[] = original.map(line => ({
+          filePath: file.path,
+          lineNumber: current.lineNumber,
+          originalLine: line,
+          newLine: null,
+          previousLine
+        }));
+
+        const block = original.map(line => line.startsWith(current.indent)
+          ? line.slice(current.indent.length)
+          : line.trimStart());
+        const oldIds = original.map((line, i) => this.parseLine(line, file, current.lineNumber + i)?.id ?? null);
+
+        const insertAt = sameFile ? this.insertTaskBlock(lines, file, block, target.heading, changes) : -1;
+
+        // Tasks below the block move up, and down again below where it went
+        const count = original.length;
+        this.mapShiftedIds(idMap, before, file, i => {
+          if (i >= current.lineNumber && i < current.lineNumber + count) return null;
+          const shifted = i < current.lineNumber ? i : i - count;
+          return sameFile && shifted >= insertAt ? shifted + count : shifted;
+        });
+
+        return { block, oldIds, changes, insertAt };
+      });
+
+      // Recorded right away, so undo can bring the block back even if
+      // inserting it into the target fails
+      group.changes.push(...moved.changes);
+
+      let insertAt = moved.insertAt;
+      if (!sameFile) {
+        const inserted: UndoLineChange[] = [];
+        try {
+          await this.processFile(targetFile, (data) => {
+            const lines = data.split('\n');
+            const before = [...lines];
+            insertAt = this.insertTaskBlock(lines, targetFile, moved.block, target.heading, inserted);
+            this.mapShiftedIds(idMap, before, targetFile, i => i >= insertAt ? i + moved.block.length : i);
+            return lines.join('\n');
+          });
+        } catch (error) {
+          await this.restoreMovedBlock(sourceFile, moved.changes, group);
+          throw error;
+        }
+        group.changes.push(...inserted);
+      }
+
+      moved.block.forEach((line, i) => {
+        const oldId = moved.oldIds[i];
+        const newId = this.parseLine(line, targetFile, insertAt + i)?.id;
+        if (oldId && newId && oldId !== newId) idMap.set(oldId, newId);
+      });
+      if (idMap.size > 0) {
+        await this.rewriteMovedReferences(idMap, allTasks, [sourceFile.path, targetFile.path], group);
+      }
+
+      return {
+        success: true,
+        task: this.parseLine(moved.block[0], targetFile, insertAt) ?? undefined
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error moving task:', error);
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Put a block taken out of its file for a move back in place, after the
+   * move failed to insert it elsewhere. Once restored, the removal is
+   * dropped from the undo group; otherwise undo can still restore it.
+   */
+  private async restoreMovedBlock(file: TFile, removed: UndoLineChange[], group: UndoGroup): Promise<void> {
+    try {
+      // Removed lines are put back the way undo does, last one first
+      await this.processFile(file, (data) => {
+        const lines = data.split('\n');
+        if (!this.replayChanges(lines, [...removed].reverse(), 'undo')) {
+          throw new Error(this.getHistoryConflictError(file, 'undo'));
+        }
+        return lines.join('\n');
+      });
+      group.changes.splice(group.changes.indexOf(removed[0]), removed.length);
+    } catch (error) {
+      console.error('Error restoring moved task:', error);
+    }
+  }
+
+  /**
+   * The line after a task's block: the task and every following line
+   * indented deeper than it, leaving out trailing blank lines
+   */
+  private getTaskBlockEnd(lines: string[], task: Task): number {
+    let end = task.lineNumber + 1;
+    for (let i = end; i < lines.length; i++) {
+      if (lines[i].trim() === '') continue;
+      if (calculateIndentDepth(lines[i].match(/^[ \t]*/)![0]) <= task.depth) break;
+      end = i + 1;
+    }
+    return end;
+  }
+
+  /**
+   * Insert moved lines after the last non-blank line of a heading's
+   * section, or of the file if the heading is gone. Records the inserts in
+   * `changes` and returns the line the block starts at.
+   */
+  private insertTaskBlock(
+    lines: string[],
+    file: TFile,
+    block: string[],
+    heading: TaskMoveHeading | null,
+    changes: UndoLineChange[]
+  ): number {
+    const headingLine = heading ? this.findHeadingLine(lines, heading) : -1;
+    const insertAt = this.getSectionInsertLine(
+      lines,
+      headingLine,
+      headingLine !== -1 ? this.getSectionEnd(lines, headingLine, heading!.level) : lines.length
+    );
+
+    lines.splice(insertAt, 0, ...block);
+    block.forEach((line, i) => changes.push({
+      filePath: file.path,
+      lineNumber: insertAt + i,
+      originalLine: null,
+      newLine: line,
+      previousLine: lines[insertAt + i - 1]
+    }));
+    return insertAt;
+  }
+
+  /**
+   * Map the line-based IDs of tasks that an edit shifted to their new
+   * lines. `newLineOf` gives where a line of `lines`, the file before the
+   * edit, ended up, or null for lines taken out.
+   */
+  private mapShiftedIds(
+    idMap: Map<string, string>,
+    lines: string[],
+    file: TFile,
+    newLineOf: (line: number) => number | null
+  ): void {
+    for (const i of findCandidateLines(lines)) {
+      const newLine = newLineOf(i);
+      if (newLine === null || newLine === i) continue;
+
+      const task = this.parseLine(lines[i], file, i);
+      if (!task || task.blockId) continue;
+      idMap.set(task.id, this.parseLine(lines[i], file, newLine)!.id);
+    }
+  }
+
+  /**
+   * Add the headings of a chain missing from a file, each nested under the
+   * one before it and appended to the end of that heading's section
+   */
+  async ensureHeadings(file: TFile, headings: TaskMoveHeading[], group?: UndoGroup): Promise<void> {
+    const changes: UndoLineChange[] = [];
+
+    await this.processFile(file, (data) => {
+      const lines = data.split('\n');
+      let start = 0;
+      let end = lines.length;
+
+      for (const heading of headings) {
+        let headingLine = this.findHeadingLine(lines, heading, start, end);
+        if (headingLine === -1) {
+          const insertAt = this.getSectionInsertLine(lines, start - 1, end);
+          const added = [`${'#'.repeat(heading.level)} ${heading.text}`];
+          if (insertAt > 0 && lines[insertAt - 1].trim() !== '') added.unshift('');
+
+          lines.splice(insertAt, 0, ...added);
+          added.forEach((line, i) => changes.push({
+            filePath: file.path,
+            lineNumber: insertAt + i,
+            originalLine: null,
+            newLine: line,
+            previousLine: lines[insertAt + i - 1]
+          }));
+          headingLine = insertAt + added.length - 1;
+        }
+
+        start = headingLine + 1;
+        end = this.getSectionEnd(lines, headingLine, heading.level);
+      }
+
+      return lines.join('\n');
+    });
+
+    this.pushUndo(`Add headings to ${file.basename}`, changes, group);
+  }
+
+  /**
+   * Line of a heading by its text and level, outside code blocks, or -1.
+   * Only lines from `start` up to `end` are searched.
+   */
+  private findHeadingLine(lines: string[], heading: TaskMoveHeading, start = 0, end = lines.length): number {
+    return findCandidateLines(lines).find(i => {
+      if (i < start || i >= end) return false;
+      const match = lines[i].match(PATTERNS.HEADING);
+      return match !== null && match[1].length === heading.level && match[2] === heading.text;
+    }) ?? -1;
+  }
+
+  /**
+   * The line a heading's section ends before: the next heading of the
+   * same or a higher level, or the end of the file
+   */
+  private getSectionEnd(lines: string[], headingLine: number, level: number): number {
+    return findCandidateLines(lines).find(i => {
+      if (i <= headingLine) return false;
+      const match = lines[i].match(PATTERNS.HEADING);
+      return match !== null && match[1].length <= level;
+    }) ?? lines.length;
+  }
+
+  /**
+   * Where to append to a section: after its last non-blank line, and
+   * after the heading at `headingLine` (-1 for the start of the file)
+   */
+  private getSectionInsertLine(lines: string[], headingLine: number, end: number): number {
+    let insertAt = end;
+    while (insertAt > headingLine + 1 && lines[insertAt - 1].trim() === '') {
+      insertAt--;
+    }
+    return insertAt;
+  }
+
+  /**
+   * Point dependency references at the new IDs of moved tasks and of the
+   * tasks the move shifted to other lines. Files are scanned
+   * line by line, since the cached line numbers of the files the tasks
+   * moved between are stale.
+   */
+  private async rewriteMovedReferences(
+    idMap: Map<string, string>,
+    allTasks: Task[],
+    movedPaths: string[],
+    group: UndoGroup
+  ): Promise<void> {
+    const basenames = new Map<string, number>();
+    for (const other of this.app.vault.getMarkdownFiles()) {
+      basenames.set(other.basename, (basenames.get(other.basename) ?? 0) + 1);
+    }
+
+    // Short references are only rewritten when they can't mean another file's task
+    const replacements = new Map(idMap);
+    for (const [oldId, newId] of idMap) {
+      const oldShort = createShortTaskId(oldId);
+      const newShort = createShortTaskId(newId);
+      if ((basenames.get(this.getIdBasename(oldId)) ?? 0) > 1) continue;
+      replacements.set(oldShort, (basenames.get(this.getIdBasename(newId)) ?? 0) > 1 ? newId : newShort);
+    }
+    const replace = (id: string): string => replacements.get(id) ?? id;
+
+    // References already rewritten by an earlier move aren't in `allTasks`
+    // yet, so any reference into the files moved between counts
+    const paths = new Set(movedPaths);
+    const movedBasenames = new Set(movedPaths.map(path => this.getIdBasename(path)));
+    for (const task of allTasks) {
+      if ([...task.blockedBy, ...task.blocks].some(id => movedBasenames.has(this.getIdBasename(id)))) {
+        paths.add(task.file.path);
+      }
+    }
+
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+
+      try {
+        const changes: UndoLineChange[] = [];
+        await this.processFile(file, (data) => {
+          const lines = data.split('\n');
+          for (const i of findCandidateLines(lines)) {
+            const line = lines[i];
+            const task = this.parseLine(line, file, i);
+            if (!task || ![...task.blockedBy, ...task.blocks].some(id => replacements.has(id))) continue;
+
+            const updated = replaceDependencyIds(line, replace);
+            lines[i] = updated;
+            changes.push({ filePath: file.path, lineNumber: i, originalLine: line, newLine: updated });
+          }
+          return lines.join('\n');
+        });
+        group.changes.push(...changes);
+      } catch (error) {
+        console.error(`Error updating references in ${path}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Basename of the file a full task ID points into
+   */
+  private getIdBasename(id: string): string {
+    const path = id.replace(/(:\d+|#\^[A-Za-z0-9-]+)$/, '');
+    return path.slice(path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+  }
+
+  /**
+   * Create the next occurrence of a recurring task; "when done" rules
+   * count from the completion date rather than the due date
+   */
+  private async createNextRecurrence(task: Task, completedDate: string | null, group: UndoGroup): Promise<void> {
     if (!task.recurrence || !this.settings.recurringAutoCreate) {
       return;
     }
 
-    const nextDueDate = this.calculateNextDueDate(task.dueDate, task.recurrence);
+    const recurrence = task.recurrence;
+    const baseDate = recurrence.whenDone
+      ? completedDate ?? formatDateToISO(getToday())
+      : task.dueDate;
+
+    // Null once the series is past its end date or out of occurrences
+    const nextDueDate = getNextOccurrence(recurrence, baseDate, { holidays: this.settings.holidays });
     if (!nextDueDate) return;
 
-    // Check if past end date
-    if (task.recurrence.endDate && nextDueDate > task.recurrence.endDate) {
-      return;
-    }
+    // Already created ahead of time by the recurrence scheduler
+    if (await this.hasSeriesOccurrence(task, nextDueDate)) return;
 
-    await this.createTask(task.file, task.text, {
-      owner: task.owner ?? undefined,
-      dueDate: nextDueDate,
-      project: task.project ?? undefined,
-      stage: 'Requested',
-      priority: task.priority ?? undefined,
-      tags: task.tags
-    });
+    await this.createTask(task.file, task.text, this.getOccurrenceOptions(task, nextDueDate, task.seriesId), group);
 
     new Notice('Created next occurrence for recurring task');
   }
 
   /**
-   * Calculate the next due date for a recurring task
+   * Create the next occurrences of a recurring task ahead of their due dates,
+   * giving the task a series ID first if it has none. Dates the file
+   * already holds an occurrence of the series for are skipped.
    */
-  private calculateNextDueDate(
-    currentDueDate: string | null,
-    recurrence: Recurrence
-  ): string | null {
-    const baseDate = currentDueDate ? new Date(currentDueDate) : getToday();
-    const interval = recurrence.interval ?? 1;
+  async createOccurrencesAhead(task: Task, dueDates: string[], group?: UndoGroup): Promise<TaskUpdateResult> {
+    if (!task.recurrence) {
+      return { success: false, error: 'Task is not recurring' };
+    }
 
-    switch (recurrence.type) {
-      case 'daily':
-        return formatDateToISO(addDays(baseDate, interval));
+    try {
+      const { value: changes } = await this.editTaskFile(task, (current, lines, file) => {
+        const changes: UndoLineChange[] = [];
+        const seriesId = current.seriesId ?? createBlockId();
+        if (!current.seriesId) {
+          const updatedLine = this.buildUpdatedLine(current, { seriesId });
+          lines[current.lineNumber] = updatedLine;
+          changes.push({
+            filePath: file.path,
+            lineNumber: current.lineNumber,
+            originalLine: current.rawLine,
+            newLine: updatedLine
+          });
+        }
 
-      case 'weekly':
-        if (recurrence.daysOfWeek && recurrence.daysOfWeek.length > 0) {
-          const currentDay = baseDate.getDay();
-          const sortedDays = [...recurrence.daysOfWeek].sort((a, b) => a - b);
+        // Occurrences already in the file are kept, so a run working from
+        // a cache that hasn't caught up with the last one adds nothing twice
+        const existing = new Map<string, Task>();
+        if (current.seriesId) {
+          for (const i of findCandidateLines(lines)) {
+            const other = this.parseLine(lines[i], file, i);
+            if (other?.seriesId === seriesId && other.dueDate) existing.set(other.dueDate, other);
+          }
+        }
 
-          // Find the next day of the week
-          let nextDay = sortedDays.find(d => d > currentDay);
-          if (nextDay !== undefined) {
-            const daysToAdd = nextDay - currentDay;
-            return formatDateToISO(addDays(baseDate, daysToAdd));
+        // Each occurrence is created from the one before it, so counts keep going down
+        let previous = current;
+        for (const dueDate of dueDates) {
+          const found = existing.get(dueDate);
+          if (found) {
+            previous = found;
+            continue;
           }
 
-          // Wrap to next week
-          nextDay = sortedDays[0];
-          const daysToAdd = 7 - currentDay + nextDay;
-          return formatDateToISO(addDays(baseDate, daysToAdd));
+          const options = this.getOccurrenceOptions(previous, dueDate, seriesId);
+          const line = this.buildNewTaskLine(current.text, options);
+          changes.push({
+            filePath: file.path,
+            lineNumber: lines.length,
+            originalLine: null,
+            newLine: line,
+            previousLine: lines[lines.length - 1]
+          });
+          lines.push(line);
+          previous = this.parseLine(line, file, lines.length - 1) ?? previous;
         }
-        return formatDateToISO(addWeeks(baseDate, interval));
+        return changes;
+      });
+
+      this.pushUndo(`Create occurrences of "${task.text}"`, changes, group);
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error creating recurring occurrence:', error);
+      return { success: false, error: message };
+    }
+  }
 
-      case 'monthly':
-        return formatDateToISO(addMonths(baseDate, interval));
+  /**
+   * Fields for the next occurrence of a recurring task
+   */
+  private getOccurrenceOptions(task: Task, dueDate: string, seriesId: string | null): TaskCreateOptions {
+    const recurrence = task.recurrence!;
+
+    // Past skipped and moved dates are left behind, so they don't pile up
+    // along the series
+    const pruned = dropPastExceptions(recurrence, dueDate);
+    const pastDropped = (pruned.excludeDates?.length ?? 0) < (recurrence.excludeDates?.length ?? 0) ||
+      (pruned.movedDates?.length ?? 0) < (recurrence.movedDates?.length ?? 0);
+
+    // Counted series carry the number of occurrences left
+    const nextRecurrence = recurrence.count !== undefined
+      ? formatRecurrence({ ...pruned, count: recurrence.count - 1 })
+      : pastDropped ? formatRecurrence(pruned) : recurrence.rawString;
+
+    return {
+      owner: task.owner ?? undefined,
+      dueDate,
+      project: task.project ?? undefined,
+      stage: 'Requested',
+      priority: task.priority ?? undefined,
+      tags: task.tags,
+      recurrence: nextRecurrence,
+      seriesId: seriesId ?? undefined
+    };
+  }
+
+  /**
+   * Whether the task's file already holds an occurrence of its series due on or after a date
+   */
+  private async hasSeriesOccurrence(task: Task, dueDate: string): Promise<boolean> {
+    if (!task.seriesId) return false;
+
+    const lines = (await this.app.vault.read(task.file)).split('\n');
+    return lines.some((line, index) => {
+      const other = this.parseLine(line, task.file, index);
+      return other !== null && other.seriesId === task.seriesId &&
+        other.dueDate !== null && other.dueDate >= dueDate;
+    });
+  }
 
-      case 'yearly':
-        return formatDateToISO(addYears(baseDate, interval));
+  // ========================================
+  // Undo History
+  // ========================================
 
-      case 'custom':
-        return formatDateToISO(addDays(baseDate, interval));
+  /**
+   * Run an operation whose line changes are undone as one step. `run`
+   * records into the group it is given; pass `parent` to join a group
+   * that is already open instead, as groups don't nest.
+   */
+  async recordUndoGroup<T>(label: string, run: (group: UndoGroup) => Promise<T>, parent?: UndoGroup): Promise<T> {
+    if (parent) {
+      return run(parent);
+    }
 
-      default:
-        return null;
+    const group: UndoGroup = { changes: [] };
+    try {
+      return await run(group);
+    } finally {
+      this.pushUndo(label, group.changes);
     }
   }
 
   /**
-   * Push an entry to the undo stack
+   * Record line changes as an undo entry, or add them to a group
    */
-  private pushUndo(entry: UndoEntry): void {
-    this.undoStack.push(entry);
+  private pushUndo(label: string, changes: UndoLineChange[], group?: UndoGroup): void {
+    if (group) {
+      group.changes.push(...changes);
+      return;
+    }
+    if (changes.length === 0) return;
 
+    this.undoStack.push({ id: this.nextUndoId++, label, changes, timestamp: Date.now() });
     if (this.undoStack.length > this.maxUndoEntries) {
       this.undoStack.shift();
     }
+
+    // A new edit starts a new branch of history
+    this.redoStack = [];
+    this.trigger('history-changed');
   }
 
   /**
    * Undo the last operation
    */
   async undo(): Promise<TaskUpdateResult> {
-    const entry = this.undoStack.pop();
+    const entry = this.undoStack[this.undoStack.length - 1];
     if (!entry) {
       return { success: false, error: 'Nothing to undo' };
     }
 
+    const result = await this.applyHistoryEntry(entry, 'undo');
+    if (result.success) {
+      this.undoStack.pop();
+      this.redoStack.push(entry);
+      this.trigger('history-changed');
+      new Notice(`Undone: ${entry.label}`);
+    }
+    return result;
+  }
+
+  /**
+   * Redo the last undone operation
+   */
+  async redo(): Promise<TaskUpdateResult> {
+    const entry = this.redoStack[this.redoStack.length - 1];
+    if (!entry) {
+      return { success: false, error: 'Nothing to redo' };
+    }
+
+    const result = await this.applyHistoryEntry(entry, 'redo');
+    if (result.success) {
+      this.redoStack.pop();
+      this.undoStack.push(entry);
+      this.trigger('history-changed');
+      new Notice(`Redone: ${entry.label}`);
+    }
+    return result;
+  }
+
+  /**
+   * Undo operations until the given entry is undone, stopping at the
+   * first one that can't be
+   */
+  async undoTo(entryId: number): Promise<TaskUpdateResult> {
+    if (!this.undoStack.some(entry => entry.id === entryId)) {
+      return { success: false, error: 'Operation is not in the undo history' };
+    }
+
+    while (this.redoStack[this.redoStack.length - 1]?.id !== entryId) {
+      const result = await this.undo();
+      if (!result.success) return result;
+    }
+    return { success: true };
+  }
+
+  /**
+   * Redo operations until the given entry is redone, stopping at the
+   * first one that can't be
+   */
+  async redoTo(entryId: number): Promise<TaskUpdateResult> {
+    if (!this.redoStack.some(entry => entry.id === entryId)) {
+      return { success: false, error: 'Operation is not in the redo history' };
+    }
+
+    while (this.undoStack[this.undoStack.length - 1]?.id !== entryId) {
+      const result = await this.redo();
+      if (!result.success) return result;
+    }
+    return { success: true };
+  }
+
+  /**
+   * Revert or reapply an entry's changes. Every file is checked against
+   * the lines the entry expects before any is written, so an entry whose
+   * lines were edited since is refused as a whole and stays in the history.
+   */
+  private async applyHistoryEntry(entry: UndoEntry, direction: HistoryDirection): Promise<TaskUpdateResult> {
     try {
-      const file = this.app.vault.getAbstractFileByPath(entry.filePath);
-      if (!file || !(file instanceof TFile)) {
-        return { success: false, error: 'File not found' };
+      // Undo reverts the newest change first so each lands where it was made
+      const changes = direction === 'undo' ? [...entry.changes].reverse() : entry.changes;
+      const byFile = new Map<string, UndoLineChange[]>();
+      for (const change of changes) {
+        byFile.set(change.filePath, [...(byFile.get(change.filePath) ?? []), change]);
       }
 
-      const content = await this.app.vault.read(file);
-      const lines = content.split('\n');
+      const files: Array<{ file: TFile; changes: UndoLineChange[] }> = [];
+      for (const [path, fileChanges] of byFile) {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+          return { success: false, error: `${path} no longer exists` };
+        }
 
-      if (entry.newLine === '') {
-        // Was a delete - restore the line
-        lines.splice(entry.lineNumber, 0, entry.originalLine);
-      } else {
-        // Was an update - restore original
-        lines[entry.lineNumber] = entry.originalLine;
+        const lines = (await this.app.vault.read(file)).split('\n');
+        if (!this.replayChanges(lines, fileChanges, direction)) {
+          return { success: false, error: this.getHistoryConflictError(file, direction) };
+        }
+        files.push({ file, changes: fileChanges });
       }
 
-      const newContent = lines.join('\n');
-      await this.app.vault.modify(file, newContent);
+      for (const { file, changes: fileChanges } of files) {
+        await this.processFile(file, (data) => {
+          // The file may have changed again since it was checked
+          const lines = data.split('\n');
+          if (!this.replayChanges(lines, fileChanges, direction)) {
+            throw new Error(this.getHistoryConflictError(file, direction));
+          }
+          return lines.join('\n');
+        });
+      }
 
-      new Notice('Undo successful');
       return { success: true };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error('Error undoing:', error);
+      console.error(`Error during ${direction}:`, error);
       return { success: false, error: message };
     }
   }
 
+  /**
+   * Apply one file's changes to its lines in place, finding each changed
+   * line by content near its recorded position. Returns false when a line
+   * the changes expect is no longer there.
+   */
+  private replayChanges(lines: string[], changes: UndoLineChange[], direction: HistoryDirection): boolean {
+    // How far lines have shifted since the entry was recorded, going by the last line found
+    let shift = 0;
+
+    for (const change of changes) {
+      const from = direction === 'undo' ? change.newLine : change.originalLine;
+      const to = direction === 'undo' ? change.originalLine : change.newLine;
+
+      if (from === null) {
+        // Below the line it followed, if that line can still be found
+        const anchor = change.previousLine !== undefined
+          ? findLineNear(lines, change.previousLine, change.lineNumber - 1 + shift)
+          : -1;
+        const insertAt = anchor !== -1
+          ? anchor + 1
+          : Math.min(Math.max(change.lineNumber + shift, 0), lines.length);
+        lines.splice(insertAt, 0, to!);
+        shift = insertAt - change.lineNumber;
+        continue;
+      }
+
+      const found = findLineNear(lines, from, change.lineNumber + shift);
+      if (found === -1) return false;
+      shift = found - change.lineNumber;
+
+      if (to === null) {
+        lines.splice(found, 1);
+      } else {
+        lines[found] = to;
+      }
+    }
+
+    return true;
+  }
+
+  private getHistoryConflictError(file: TFile, direction: HistoryDirection): string {
+    return `Cannot ${direction}: ${file.basename} was edited since. Change it back by hand or clear the history.`;
+  }
+
   /**
    * Check if undo is available
    */
@@ -545,40 +1461,97 @@ export class TaskUpdater {
   }
 
   /**
-   * Clear the undo stack
+   * Check if redo is available
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Recent operations that can be undone and redone, newest first
+   */
+  getHistory(): UndoHistory {
+    return {
+      undo: [...this.undoStack].reverse(),
+      redo: [...this.redoStack].reverse()
+    };
+  }
+
+  /**
+   * Point undo and redo entries for a renamed file at its new path
+   */
+  migrateFilePath(oldPath: string, newPath: string): void {
+    for (const entry of [...this.undoStack, ...this.redoStack]) {
+      for (const change of entry.changes) {
+        if (change.filePath === oldPath) change.filePath = newPath;
+      }
+    }
+    this.trigger('history-changed');
+  }
+
+  /**
+   * Clear the undo and redo history
    */
   clearUndoStack(): void {
     this.undoStack = [];
+    this.redoStack = [];
+    this.trigger('history-changed');
   }
 
   /**
    * Update a task's stage
    */
   async updateTaskStage(task: Task, stage: string | null): Promise<TaskUpdateResult> {
-    const updates: any = { stage };
-
-    if (stage === 'Completed') {
-      updates.completed = true;
-    } else if (task.completed) {
-      updates.completed = false;
+    const statuses = this.settings.taskStatuses;
+    const updates: TaskUpdates = { stage };
+
+    // Use the status mapped to the stage; otherwise reopen tasks whose
+    // status is done or implies a different stage
+    const mapped = stage ? statuses.find(s => s.stage === stage) : undefined;
+    const current = getTaskStatus(task.status, statuses);
+    if (mapped) {
+      updates.status = mapped.symbol;
+    } else if (current.isDone || current.stage) {
+      updates.status = getTodoStatus(statuses).symbol;
     }
 
     return this.updateTask(task, updates);
   }
 
+  /**
+   * Skip one future occurrence of a recurring task; the exception is
+   * stored in the task's recurrence rule
+   */
+  async skipRecurringOccurrence(task: Task, date: string): Promise<TaskUpdateResult> {
+    if (!task.recurrence) {
+      return { success: false, error: 'Task is not recurring' };
+    }
+    return this.updateTask(task, { recurrence: formatRecurrence(skipOccurrence(task.recurrence, date)) });
+  }
+
+  /**
+   * Move one future occurrence of a recurring task to another date
+   */
+  async rescheduleRecurringOccurrence(task: Task, date: string, newDate: string): Promise<TaskUpdateResult> {
+    if (!task.recurrence) {
+      return { success: false, error: 'Task is not recurring' };
+    }
+    return this.updateTask(task, {
+      recurrence: formatRecurrence(moveOccurrence(task.recurrence, date, newDate))
+    });
+  }
+
   /**
    * Bulk update multiple tasks
    */
   async bulkUpdate(
     tasks: Task[],
-    updates: Partial<{
-      completed: boolean;
-      stage: string | null;
-      owner: string | null;
-      project: string | null;
-      priority: string | null;
-    }>
+    updates: TaskUpdates
   ): Promise<BulkOperationResult> {
+    return this.recordUndoGroup(`Edit ${tasks.length} tasks`, group => this.applyBulkUpdate(tasks, updates, group));
+  }
+
+  private async applyBulkUpdate(tasks: Task[], updates: TaskUpdates, group: UndoGroup): Promise<BulkOperationResult> {
     const result: BulkOperationResult = {
       successful: 0,
       failed: 0,
@@ -586,7 +1559,7 @@ export class TaskUpdater {
     };
 
     for (const task of tasks) {
-      const updateResult = await this.updateTask(task, updates);
+      const updateResult = await this.updateTask(task, updates, group);
 
       if (updateResult.success) {
         result.successful++;
@@ -605,6 +1578,10 @@ export class TaskUpdater {
    * Bulk delete multiple tasks
    */
   async bulkDelete(tasks: Task[]): Promise<BulkOperationResult> {
+    return this.recordUndoGroup(`Delete ${tasks.length} tasks`, group => this.applyBulkDelete(tasks, group));
+  }
+
+  private async applyBulkDelete(tasks: Task[], group: UndoGroup): Promise<BulkOperationResult> {
     const result: BulkOperationResult = {
       successful: 0,
       failed: 0,
@@ -621,7 +1598,7 @@ export class TaskUpdater {
     });
 
     for (const task of sorted) {
-      const deleteResult = await this.deleteTask(task);
+      const deleteResult = await this.deleteTask(task, group);
 
       if (deleteResult.success) {
         result.successful++;
@@ -1,14 +1,21 @@
-import { Plugin, TFile, debounce, Notice, Editor, MarkdownView } from 'obsidian';
-import { TaskConsolidatorSettings } from './types';
-import { TASK_VIEW_TYPE } from './types/constants';
+import { Plugin, TFile, normalizePath, Notice, Editor, MarkdownView } from 'obsidian';
+import { Task, TaskConsolidatorSettings, TaskUpdateResult, UndoGroup } from './types';
+import { TASK_VIEW_TYPE, TASK_HISTORY_VIEW_TYPE, TASK_HEALTH_VIEW_TYPE, TASK_QUERY_BLOCK } from './types/constants';
 import { mergeSettings } from './settings/defaults';
 import { TaskConsolidatorSettingTab } from './settings/settingsTab';
 import { TaskCache } from './core/taskCache';
 import { TaskUpdater } from './core/taskUpdater';
+import { parseTaskLine } from './core/taskParser';
 import { NotificationService } from './core/notificationService';
+import { RecurrenceScheduler } from './core/recurrenceScheduler';
+import { RenameService } from './core/renameService';
+import { ArchiveService } from './core/archiveService';
+import { TaskDoctor } from './core/taskDoctor';
 import { CommentService } from './core/commentService';
 import { SuggestionService } from './core/suggestionService';
 import { TaskPanelView } from './views/panelView';
+import { TaskHistoryView } from './views/historyView';
+import { TaskHealthView } from './views/healthView';
 import { KanbanModal } from './views/kanbanModal';
 import { QuickAddModal } from './views/quickAddModal';
 import { CalendarModal } from './views/calendarView';
@@ -18,6 +25,10 @@ import { TemplateModal } from './views/templateModal';
 import { TimeReportModal } from './views/timeReportModal';
 import { ExportModal } from './views/exportModal';
 import { WorkspaceModal } from './views/workspaceModal';
+import { ArchiveModal } from './views/archiveModal';
+import { DependencySuggestModal } from './views/dependencySuggestModal';
+import { MoveTaskModal } from './views/moveTaskModal';
+import { TaskQueryBlock } from './views/taskQueryBlock';
 import { ensureDailyNoteExists, getToday, getTodaysDailyNotePath } from './utils';
 
 // ========================================
@@ -29,35 +40,58 @@ export default class TaskConsolidatorPlugin extends Plugin {
   taskCache!: TaskCache;
   taskUpdater!: TaskUpdater;
   notificationService!: NotificationService;
+  recurrenceScheduler!: RecurrenceScheduler;
+  renameService!: RenameService;
+  archiveService!: ArchiveService;
+  taskDoctor!: TaskDoctor;
   commentService!: CommentService;
   suggestionService!: SuggestionService;
 
   private fileWatcherRegistered = false;
-  private debouncedRefresh = debounce(
-    async () => {
-      await this.refreshTasks();
-      await this.refreshView();
-    },
-    300,
-    true
-  );
+  /** Files the plugin wrote while the file watchers are off */
+  private writtenPaths = new Set<string>();
 
   async onload(): Promise<void> {
     // Load settings
     await this.loadSettings();
 
     // Initialize core services
-    this.taskCache = new TaskCache(this.app, this.settings);
+    const indexPath = this.manifest.dir ? normalizePath(`${this.manifest.dir}/task-index.json`) : null;
+    this.taskCache = new TaskCache(this.app, this.settings, indexPath);
     this.taskUpdater = new TaskUpdater(this.app, this.settings);
     this.notificationService = new NotificationService(this.app, this.settings);
+    this.recurrenceScheduler = new RecurrenceScheduler(this.settings, this.taskCache, this.taskUpdater);
     this.commentService = new CommentService(
       () => this.loadData(),
       (data: any) => this.saveData(data)
     );
     this.suggestionService = new SuggestionService(this.taskCache);
+    this.renameService = new RenameService(
+      this.app,
+      this.settings,
+      this.taskCache,
+      this.taskUpdater,
+      this.commentService,
+      () => this.saveSettings()
+    );
+    this.archiveService = new ArchiveService(
+      this.app,
+      this.settings,
+      this.taskCache,
+      this.taskUpdater,
+      () => this.saveSettings()
+    );
+    this.taskDoctor = new TaskDoctor(this.settings, this.taskCache, this.taskUpdater);
 
     // Register view
     this.registerView(TASK_VIEW_TYPE, (leaf) => new TaskPanelView(leaf, this));
+    this.registerView(TASK_HISTORY_VIEW_TYPE, (leaf) => new TaskHistoryView(leaf, this));
+    this.registerView(TASK_HEALTH_VIEW_TYPE, (leaf) => new TaskHealthView(leaf, this));
+
+    // Render ```task-consolidator``` query blocks in notes
+    this.registerMarkdownCodeBlockProcessor(TASK_QUERY_BLOCK, (source, el, ctx) => {
+      ctx.addChild(new TaskQueryBlock(el, this, source));
+    });
 
     // Add ribbon icon
     this.addRibbonIcon('list-checks', 'Task Consolidator', () => {
@@ -145,6 +179,42 @@ export default class TaskConsolidatorPlugin extends Plugin {
       }
     });
 
+    this.addCommand({
+      id: 'add-blocker-to-task',
+      name: 'Add Blocking Task to Task at Cursor',
+      editorCallback: (editor: Editor, view: MarkdownView) => {
+        const file = view.file;
+        const line = editor.getCursor().line;
+        const task = file
+          ? parseTaskLine(editor.getLine(line), file, line, this.settings.customStages, this.settings.taskStatuses)
+          : null;
+
+        if (!task) {
+          new Notice('No task on the current line');
+          return;
+        }
+        new DependencySuggestModal(this.app, this, task).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'move-task-at-cursor',
+      name: 'Move Task at Cursor to…',
+      editorCallback: (editor: Editor, view: MarkdownView) => {
+        const file = view.file;
+        const line = editor.getCursor().line;
+        const task = file
+          ? parseTaskLine(editor.getLine(line), file, line, this.settings.customStages, this.settings.taskStatuses)
+          : null;
+
+        if (!task) {
+          new Notice('No task on the current line');
+          return;
+        }
+        new MoveTaskModal(this.app, this, task).open();
+      }
+    });
+
     this.addCommand({
       id: 'open-template-manager',
       name: 'Open Task Template Manager',
@@ -177,12 +247,53 @@ export default class TaskConsolidatorPlugin extends Plugin {
       }
     });
 
+    this.addCommand({
+      id: 'archive-completed-tasks',
+      name: 'Archive Completed Tasks',
+      callback: () => {
+        new ArchiveModal(this.app, this).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'undo-task-change',
+      name: 'Undo Last Task Change',
+      checkCallback: (checking: boolean) => {
+        if (!this.taskUpdater.canUndo()) return false;
+        if (!checking) void this.runHistoryAction(() => this.taskUpdater.undo());
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'redo-task-change',
+      name: 'Redo Task Change',
+      checkCallback: (checking: boolean) => {
+        if (!this.taskUpdater.canRedo()) return false;
+        if (!checking) void this.runHistoryAction(() => this.taskUpdater.redo());
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'open-task-history',
+      name: 'Open Task History',
+      callback: () => {
+        this.activateHistoryView();
+      }
+    });
+
+    this.addCommand({
+      id: 'check-task-health',
+      name: 'Check Task Health',
+      callback: () => {
+        this.activateHealthView();
+      }
+    });
+
     // Add settings tab
     this.addSettingTab(new TaskConsolidatorSettingTab(this.app, this));
 
-    // Initialize task cache
-    await this.taskCache.initialize();
-
     // Initialize comment service
     if (this.settings.enableComments) {
       await this.commentService.initialize();
@@ -190,21 +301,36 @@ export default class TaskConsolidatorPlugin extends Plugin {
 
     // Setup file watchers
     this.setupFileWatchers();
-
-    // Setup notifications
-    this.setupNotifications();
+    this.setupWriteRefresh();
+    this.setupRenameMigration();
+
+    // Show indexing progress in the status bar
+    this.setupIndexStatus();
+
+    // Index in the background; views show partial results while it runs.
+    // The services started after indexing need a complete cache, so they
+    // stay off if it fails.
+    this.initializeTaskCache().catch(error => {
+      console.error('Task Consolidator: Error initializing task cache:', error);
+      new Notice('Task Consolidator could not index tasks. Reload the plugin to try again.');
+    });
 
     // Debug logging
     if (this.settings.debugMode) {
       console.log('Task Consolidator loaded');
-      console.log('Cache stats:', this.taskCache.getCacheStats());
     }
   }
 
   onunload(): void {
     this.app.workspace.detachLeavesOfType(TASK_VIEW_TYPE);
-    this.taskCache.clear();
+    this.app.workspace.detachLeavesOfType(TASK_HISTORY_VIEW_TYPE);
+    this.app.workspace.detachLeavesOfType(TASK_HEALTH_VIEW_TYPE);
+    // The index snapshot is taken before clear() empties the cache
+    void this.taskCache.saveIndex();
+    this.taskCache.destroy();
     this.notificationService.destroy();
+    this.recurrenceScheduler.destroy();
+    this.archiveService.destroy();
 
     if (this.settings.debugMode) {
       console.log('Task Consolidator unloaded');
@@ -221,16 +347,10 @@ export default class TaskConsolidatorPlugin extends Plugin {
     this.taskCache.updateSettings(this.settings);
     this.taskUpdater.updateSettings(this.settings);
     this.notificationService.updateSettings(this.settings);
-
-    // Recreate debounced refresh with new debounce time
-    this.debouncedRefresh = debounce(
-      async () => {
-        await this.refreshTasks();
-        await this.refreshView();
-      },
-      this.settings.refreshDebounceMs,
-      true
-    );
+    this.recurrenceScheduler.updateSettings(this.settings);
+    this.renameService.updateSettings(this.settings);
+    this.archiveService.updateSettings(this.settings);
+    this.taskDoctor.updateSettings(this.settings);
 
     // Restart notification check interval
     this.setupNotifications();
@@ -254,6 +374,55 @@ export default class TaskConsolidatorPlugin extends Plugin {
     }
   }
 
+  async activateHistoryView(): Promise<void> {
+    const { workspace } = this.app;
+
+    let leaf = workspace.getLeavesOfType(TASK_HISTORY_VIEW_TYPE)[0];
+
+    if (!leaf) {
+      const rightLeaf = workspace.getRightLeaf(false);
+      if (rightLeaf) {
+        await rightLeaf.setViewState({ type: TASK_HISTORY_VIEW_TYPE, active: true });
+        leaf = rightLeaf;
+      }
+    }
+
+    if (leaf) {
+      workspace.revealLeaf(leaf);
+    }
+  }
+
+  async activateHealthView(): Promise<void> {
+    const { workspace } = this.app;
+
+    let leaf = workspace.getLeavesOfType(TASK_HEALTH_VIEW_TYPE)[0];
+
+    if (!leaf) {
+      const rightLeaf = workspace.getRightLeaf(false);
+      if (rightLeaf) {
+        await rightLeaf.setViewState({ type: TASK_HEALTH_VIEW_TYPE, active: true });
+        leaf = rightLeaf;
+      }
+    } else if (leaf.view instanceof TaskHealthView) {
+      // An open report is checked again when asked for
+      leaf.view.check();
+    }
+
+    if (leaf) {
+      workspace.revealLeaf(leaf);
+    }
+  }
+
+  /**
+   * Run an undo or redo and report why it was refused
+   */
+  private async runHistoryAction(action: () => Promise<TaskUpdateResult>): Promise<void> {
+    const result = await action();
+    if (!result.success && result.error) {
+      new Notice(result.error);
+    }
+  }
+
   openKanban(): void {
     new KanbanModal(this.app, this).open();
   }
@@ -297,6 +466,46 @@ export default class TaskConsolidatorPlugin extends Plugin {
     }).open();
   }
 
+  /**
+   * Make sure a task has a stable ^block ID, moving data keyed by its
+   * old line-based ID over to the new one. Pass `group` to undo the ID
+   * together with the edit that needs it.
+   */
+  async ensureStableTaskId(task: Task, group?: UndoGroup): Promise<Task> {
+    if (task.blockId) return task;
+
+    const result = await this.taskUpdater.ensureBlockId(task, group);
+    if (!result.success || !result.task) {
+      new Notice(`Could not add a block ID to the task: ${result.error}`);
+      return task;
+    }
+
+    await this.commentService.migrateTaskId(task.id, result.task.id);
+    return result.task;
+  }
+
+  /**
+   * Mark a task as blocked by another, referencing the blocker by block ID
+   */
+  async addTaskDependency(task: Task, blocker: Task): Promise<TaskUpdateResult> {
+    // One undo step takes back both the link and the block ID it needed
+    return this.taskUpdater.recordUndoGroup(`Edit "${task.text}"`, async (group) => {
+      const stableBlocker = await this.ensureStableTaskId(blocker, group);
+      return this.taskUpdater.addDependency(task, stableBlocker, 'blockedBy', group);
+    });
+  }
+
+  /**
+   * Refresh a file the plugin wrote once Obsidian has re-indexed it; files
+   * written through TaskUpdater are reported on their own. With
+   * auto-refresh on, the file watchers do this anyway.
+   */
+  refreshWrittenFile(file: TFile): void {
+    if (!this.fileWatcherRegistered) {
+      this.writtenPaths.add(file.path);
+    }
+  }
+
   async refreshTasks(): Promise<void> {
     await this.taskCache.refreshAll();
 
@@ -316,27 +525,61 @@ export default class TaskConsolidatorPlugin extends Plugin {
     }
   }
 
+  private async initializeTaskCache(): Promise<void> {
+    await this.taskCache.initialize();
+
+    // Setup notifications
+    this.setupNotifications();
+
+    // Create upcoming recurring occurrences now and every hour
+    this.recurrenceScheduler.start();
+
+    // Archive completed tasks once a day if enabled
+    this.archiveService.start();
+
+    if (this.settings.debugMode) {
+      console.log('Cache stats:', this.taskCache.getCacheStats());
+    }
+  }
+
+  private setupIndexStatus(): void {
+    const statusBarItem = this.addStatusBarItem();
+    statusBarItem.addClass('task-index-status');
+    statusBarItem.hide();
+
+    this.registerEvent(
+      this.taskCache.on('index-progress', ({ done, total }) => {
+        if (done < total) {
+          statusBarItem.setText(`Indexing tasks… ${done}/${total}`);
+          statusBarItem.show();
+        } else {
+          statusBarItem.hide();
+        }
+      })
+    );
+  }
+
   private setupFileWatchers(): void {
     if (this.fileWatcherRegistered || !this.settings.autoRefresh) {
       return;
     }
 
-    // Watch for file modifications
+    // Only the cache is updated here; views subscribe to its change events
+    // Watch for file modifications once Obsidian has re-indexed the file,
+    // so the list items the parser relies on match its new content
     this.registerEvent(
-      this.app.vault.on('modify', (file) => {
-        if (file instanceof TFile && file.extension === 'md') {
-          this.taskCache.refreshFile(file);
-          this.debouncedRefresh();
+      this.app.metadataCache.on('changed', async (file) => {
+        if (file.extension === 'md') {
+          await this.taskCache.refreshFile(file);
         }
       })
     );
 
     // Watch for new files
     this.registerEvent(
-      this.app.vault.on('create', (file) => {
+      this.app.vault.on('create', async (file) => {
         if (file instanceof TFile && file.extension === 'md') {
-          this.taskCache.refreshFile(file);
-          this.debouncedRefresh();
+          await this.taskCache.refreshFile(file);
         }
       })
     );
@@ -346,26 +589,53 @@ export default class TaskConsolidatorPlugin extends Plugin {
       this.app.vault.on('delete', (file) => {
         if (file instanceof TFile && file.extension === 'md') {
           this.taskCache.removeFile(file.path);
-          this.debouncedRefresh();
         }
       })
     );
 
-    // Watch for renamed files
+    this.fileWatcherRegistered = true;
+
+    if (this.settings.debugMode) {
+      console.log('File watchers registered');
+    }
+  }
+
+  /**
+   * Without auto-refresh, files the plugin writes itself are still
+   * refreshed, once Obsidian has re-indexed them, so its edits show up
+   */
+  private setupWriteRefresh(): void {
     this.registerEvent(
-      this.app.vault.on('rename', (file, oldPath) => {
-        if (file instanceof TFile && file.extension === 'md') {
-          this.taskCache.renameFile(oldPath, file.path);
-          this.debouncedRefresh();
+      this.taskUpdater.on('file-written', (file) => this.refreshWrittenFile(file))
+    );
+
+    this.registerEvent(
+      this.app.metadataCache.on('changed', async (file) => {
+        if (this.writtenPaths.delete(file.path)) {
+          await this.taskCache.refreshFile(file);
         }
       })
     );
+  }
 
-    this.fileWatcherRegistered = true;
+  /**
+   * Renames are migrated even without auto-refresh, since comments and
+   * references to the old path would otherwise be lost
+   */
+  private setupRenameMigration(): void {
+    this.registerEvent(
+      this.app.vault.on('rename', async (file, oldPath) => {
+        if (!(file instanceof TFile) || file.extension !== 'md') return;
 
-    if (this.settings.debugMode) {
-      console.log('File watchers registered');
-    }
+        const result = await this.renameService.handleRename(file, oldPath);
+        if (result.references > 0) {
+          new Notice(`Updated ${result.references} task reference${result.references === 1 ? '' : 's'} to ${file.basename}`);
+        }
+        if (result.errors.length > 0) {
+          new Notice(`Some task references to ${file.basename} could not be updated:\n${result.errors.join('\n')}`);
+        }
+      })
+    );
   }
 
   private setupNotifications(): void {
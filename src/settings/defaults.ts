@@ -1,4 +1,5 @@
 import { TaskConsolidatorSettings } from '../types';
+import { DEFAULT_TASK_STATUSES } from '../types/constants';
 
 // ========================================
 // Default Settings
@@ -20,6 +21,8 @@ export const DEFAULT_SETTINGS: TaskConsolidatorSettings = {
   customStages: [],
   excludedFolders: [],
   excludedPatterns: [],
+  newTaskFormat: 'default',
+  taskStatuses: DEFAULT_TASK_STATUSES,
 
   // Behavior settings
   autoRefresh: true,
@@ -30,6 +33,12 @@ export const DEFAULT_SETTINGS: TaskConsolidatorSettings = {
   // Recurring task settings
   recurringAutoCreate: true,
   recurringCreateDaysBefore: 1,
+  holidays: [],
+
+  // Archive settings
+  archiveRules: [],
+  archiveAutomatically: false,
+  lastArchiveRun: 0,
 
   // Appearance settings
   compactMode: false,
@@ -111,6 +120,9 @@ export function mergeSettings(loaded: Partial<TaskConsolidatorSettings>): TaskCo
     customStages: loaded.customStages ?? DEFAULT_SETTINGS.customStages,
     excludedFolders: loaded.excludedFolders ?? DEFAULT_SETTINGS.excludedFolders,
     excludedPatterns: loaded.excludedPatterns ?? DEFAULT_SETTINGS.excludedPatterns,
+    taskStatuses: (loaded.taskStatuses ?? DEFAULT_SETTINGS.taskStatuses).map(s => ({ ...s })),
+    holidays: loaded.holidays ?? DEFAULT_SETTINGS.holidays,
+    archiveRules: loaded.archiveRules ?? DEFAULT_SETTINGS.archiveRules,
     filterTags: loaded.filterTags ?? DEFAULT_SETTINGS.filterTags,
     collapsedGroups: loaded.collapsedGroups ?? DEFAULT_SETTINGS.collapsedGroups,
     taskTemplates: loaded.taskTemplates ?? DEFAULT_SETTINGS.taskTemplates,
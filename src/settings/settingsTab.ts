@@ -1,8 +1,21 @@
 import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
 import type TaskConsolidatorPlugin from '../main';
-import { SORT_OPTIONS, GROUP_OPTIONS, DATE_FORMATS, FILE_PATH_OPTIONS, VIEW_TYPES } from '../types/constants';
+import {
+  SORT_OPTIONS,
+  GROUP_OPTIONS,
+  DATE_FORMATS,
+  FILE_PATH_OPTIONS,
+  VIEW_TYPES,
+  STAGES,
+  DEFAULT_TASK_STATUSES,
+  DEFAULT_ARCHIVE_FILE,
+  DEFAULT_ARCHIVE_DAYS
+} from '../types/constants';
 import { DEFAULT_SETTINGS } from './defaults';
 import { formatLabel } from '../utils/textUtils';
+import { parseISODate } from '../utils/dateUtils';
+import { TASK_FORMAT_ADAPTERS } from '../core/taskFormats';
+import { ArchiveDestination, ArchiveRule, TaskFormat, TaskStatus } from '../types';
 
 // ========================================
 // Settings Tab
@@ -24,8 +37,10 @@ export class TaskConsolidatorSettingTab extends PluginSettingTab {
 
     this.renderDisplaySection(containerEl);
     this.renderDetectionSection(containerEl);
+    this.renderStatusSection(containerEl);
     this.renderBehaviorSection(containerEl);
     this.renderRecurringSection(containerEl);
+    this.renderArchiveSection(containerEl);
     this.renderAppearanceSection(containerEl);
     this.renderQuickAddSection(containerEl);
     this.renderDailyNoteSection(containerEl);
@@ -158,6 +173,20 @@ export class TaskConsolidatorSettingTab extends PluginSettingTab {
         });
       });
 
+    new Setting(container)
+      .setName('New Task Format')
+      .setDesc('Syntax used for inline fields of newly created tasks. Existing tasks keep their own format when edited.')
+      .addDropdown(dropdown => {
+        for (const format of TASK_FORMAT_ADAPTERS) {
+          dropdown.addOption(format.id, format.name);
+        }
+        dropdown.setValue(this.plugin.settings.newTaskFormat);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.newTaskFormat = value as TaskFormat;
+          await this.plugin.saveSettings();
+        });
+      });
+
     new Setting(container)
       .setName('Custom Stages')
       .setDesc('Additional workflow stages (comma-separated)')
@@ -204,6 +233,144 @@ export class TaskConsolidatorSettingTab extends PluginSettingTab {
       });
   }
 
+  private renderStatusSection(container: HTMLElement): void {
+    container.createEl('h2', { text: 'Task Statuses' });
+    container.createEl('p', {
+      text: 'Checkbox symbols recognised in [ ]. Done statuses count as completed; the stage applies when a task has no stage of its own. Toggling a task moves it to the next status.',
+      cls: 'setting-item-description'
+    });
+
+    const statuses = this.plugin.settings.taskStatuses;
+    const stages = [...STAGES, ...this.plugin.settings.customStages];
+
+    statuses.forEach((status, index) => {
+      new Setting(container)
+        .setName(`[${status.symbol}] ${status.name}`)
+        .addText(text => {
+          text.setPlaceholder('Symbol');
+          text.setValue(status.symbol);
+          text.inputEl.maxLength = 1;
+          text.inputEl.size = 2;
+          // Applied when the field is left: every change re-scans the vault
+          text.inputEl.addEventListener('change', async () => {
+            const value = text.getValue();
+            const current = this.plugin.settings.taskStatuses[index];
+            if (value === current.symbol) return;
+
+            // A space is a valid symbol: it is the usual to-do status
+            const error = value.length !== 1 || value === ']'
+              ? 'A status needs a one-character symbol other than ]'
+              : this.plugin.settings.taskStatuses.some((s, i) => i !== index && s.symbol === value)
+                ? `Symbol "${value}" is already used by another status`
+                : null;
+            if (error) {
+              new Notice(error);
+              text.setValue(current.symbol);
+              return;
+            }
+
+            // Keep other statuses cycling to this one
+            this.plugin.settings.taskStatuses = this.plugin.settings.taskStatuses.map((s, i) => ({
+              ...s,
+              symbol: i === index ? value : s.symbol,
+              nextSymbol: s.nextSymbol === current.symbol ? value : s.nextSymbol
+            }));
+            await this.saveTaskStatuses();
+            this.display();
+          });
+        })
+        .addText(text => {
+          text.setPlaceholder('Name');
+          text.setValue(status.name);
+          text.inputEl.addEventListener('change', async () => {
+            const value = text.getValue();
+            // Names are display-only, no re-scan needed
+            this.plugin.settings.taskStatuses = this.plugin.settings.taskStatuses.map((s, i) =>
+              i === index ? { ...s, name: value.trim() || status.name } : s
+            );
+            await this.plugin.saveSettings();
+          });
+        })
+        .addToggle(toggle => {
+          toggle.setTooltip('Counts as done');
+          toggle.setValue(status.isDone);
+          toggle.onChange(async (value) => {
+            await this.updateTaskStatus(index, { isDone: value });
+          });
+        })
+        .addDropdown(dropdown => {
+          dropdown.addOption('', 'No stage');
+          for (const stage of stages) {
+            dropdown.addOption(stage, stage);
+          }
+          dropdown.setValue(status.stage ?? '');
+          dropdown.onChange(async (value) => {
+            await this.updateTaskStatus(index, { stage: value || null });
+          });
+        })
+        .addDropdown(dropdown => {
+          for (const next of statuses) {
+            dropdown.addOption(next.symbol, `Next: [${next.symbol}] ${next.name}`);
+          }
+          dropdown.setValue(status.nextSymbol);
+          dropdown.onChange(async (value) => {
+            await this.updateTaskStatus(index, { nextSymbol: value });
+          });
+        })
+        .addExtraButton(button => {
+          button.setIcon('trash');
+          button.setTooltip('Remove status');
+          button.onClick(async () => {
+            this.plugin.settings.taskStatuses = this.plugin.settings.taskStatuses.filter((_, i) => i !== index);
+            await this.saveTaskStatuses();
+            this.display();
+          });
+        });
+    });
+
+    new Setting(container)
+      .addButton(button => {
+        button.setButtonText('Add Status');
+        button.onClick(async () => {
+          const used = new Set(this.plugin.settings.taskStatuses.map(s => s.symbol));
+          const symbol = ['!', '*', '<', 'i', 'b', '"'].find(s => !used.has(s)) ?? '~';
+          this.plugin.settings.taskStatuses = [
+            ...this.plugin.settings.taskStatuses,
+            { symbol, name: 'New Status', isDone: false, stage: null, nextSymbol: 'x' }
+          ];
+          await this.saveTaskStatuses();
+          this.display();
+        });
+      })
+      .addButton(button => {
+        button.setButtonText('Restore Defaults');
+        button.onClick(async () => {
+          this.plugin.settings.taskStatuses = DEFAULT_TASK_STATUSES.map(s => ({ ...s }));
+          await this.saveTaskStatuses();
+          this.display();
+        });
+      });
+  }
+
+  /**
+   * Replace one status in the registry without mutating the shared defaults
+   */
+  private async updateTaskStatus(index: number, changes: Partial<TaskStatus>): Promise<void> {
+    this.plugin.settings.taskStatuses = this.plugin.settings.taskStatuses.map((status, i) =>
+      i === index ? { ...status, ...changes } : status
+    );
+    await this.saveTaskStatuses();
+  }
+
+  /**
+   * Statuses change how lines are parsed, so re-scan after saving
+   */
+  private async saveTaskStatuses(): Promise<void> {
+    await this.plugin.saveSettings();
+    await this.plugin.refreshTasks();
+    await this.plugin.refreshView();
+  }
+
   private renderBehaviorSection(container: HTMLElement): void {
     container.createEl('h2', { text: 'Behavior' });
 
@@ -233,7 +400,7 @@ export class TaskConsolidatorSettingTab extends PluginSettingTab {
 
     new Setting(container)
       .setName('Parent Task Completion')
-      .setDesc('How completing a parent task affects children')
+      .setDesc('How completing a task affects its parent or subtasks')
       .addDropdown(dropdown => {
         dropdown.addOption('manual', 'Manual - No automatic behavior');
         dropdown.addOption('auto', 'Auto - Complete parent when all children done');
@@ -273,7 +440,7 @@ export class TaskConsolidatorSettingTab extends PluginSettingTab {
 
     new Setting(container)
       .setName('Create Days Before')
-      .setDesc('Days before due date to create next occurrence (0 = on completion)')
+      .setDesc('Create upcoming occurrences this many days before they are due, checked hourly (0 = only on completion)')
       .addText(text => {
         text.setValue(String(this.plugin.settings.recurringCreateDaysBefore));
         text.setPlaceholder('1');
@@ -283,6 +450,132 @@ export class TaskConsolidatorSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         });
       });
+
+    new Setting(container)
+      .setName('Holidays')
+      .setDesc('Dates (YYYY-MM-DD, comma-separated) skipped by rules like "every weekday except holidays"')
+      .addText(text => {
+        text.setValue(this.plugin.settings.holidays.join(', '));
+        text.setPlaceholder('2026-12-25, 2027-01-01');
+        text.onChange(async (value) => {
+          this.plugin.settings.holidays = value
+            .split(',')
+            .map(s => s.trim())
+            .filter(s => parseISODate(s) !== null);
+          await this.plugin.saveSettings();
+        });
+      });
+  }
+
+  private renderArchiveSection(container: HTMLElement): void {
+    container.createEl('h2', { text: 'Archive' });
+    container.createEl('p', {
+      text: 'Rules for moving completed tasks and their subtasks out of notes, grouped by month. The first rule whose folder and project match a task decides where it goes. Run "Archive Completed Tasks" to preview and archive.',
+      cls: 'setting-item-description'
+    });
+
+    new Setting(container)
+      .setName('Archive Automatically')
+      .setDesc('Run the archive rules once a day without a preview')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.archiveAutomatically);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.archiveAutomatically = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    this.plugin.settings.archiveRules.forEach((rule, index) => {
+      new Setting(container)
+        .setName(`Rule ${index + 1}`)
+        .setDesc('Folder, project, days since completion, and where to archive')
+        .addToggle(toggle => {
+          toggle.setTooltip('Enabled');
+          toggle.setValue(rule.enabled);
+          toggle.onChange(async (value) => {
+            await this.updateArchiveRule(index, { enabled: value });
+          });
+        })
+        .addText(text => {
+          text.setPlaceholder('Any folder');
+          text.setValue(rule.folder);
+          text.onChange(async (value) => {
+            await this.updateArchiveRule(index, { folder: value.trim() });
+          });
+        })
+        .addText(text => {
+          text.setPlaceholder('Any project');
+          text.setValue(rule.project);
+          text.onChange(async (value) => {
+            await this.updateArchiveRule(index, { project: value.trim() });
+          });
+        })
+        .addText(text => {
+          text.setPlaceholder(String(DEFAULT_ARCHIVE_DAYS));
+          text.setValue(String(rule.olderThanDays));
+          text.inputEl.size = 4;
+          text.onChange(async (value) => {
+            const num = parseInt(value, 10);
+            await this.updateArchiveRule(index, { olderThanDays: isNaN(num) ? DEFAULT_ARCHIVE_DAYS : Math.max(0, num) });
+          });
+        })
+        .addDropdown(dropdown => {
+          dropdown.addOption('file', 'To archive note');
+          dropdown.addOption('heading', 'To heading in same note');
+          dropdown.setValue(rule.destination);
+          dropdown.onChange(async (value) => {
+            await this.updateArchiveRule(index, { destination: value as ArchiveDestination });
+            this.display();
+          });
+        })
+        .addText(text => {
+          text.setPlaceholder(rule.destination === 'file' ? DEFAULT_ARCHIVE_FILE : 'Archive');
+          text.setValue(rule.target);
+          text.onChange(async (value) => {
+            await this.updateArchiveRule(index, { target: value.trim() });
+          });
+        })
+        .addExtraButton(button => {
+          button.setIcon('trash');
+          button.setTooltip('Remove rule');
+          button.onClick(async () => {
+            this.plugin.settings.archiveRules = this.plugin.settings.archiveRules.filter((_, i) => i !== index);
+            await this.plugin.saveSettings();
+            this.display();
+          });
+        });
+    });
+
+    new Setting(container)
+      .addButton(button => {
+        button.setButtonText('Add Rule');
+        button.onClick(async () => {
+          this.plugin.settings.archiveRules = [
+            ...this.plugin.settings.archiveRules,
+            {
+              id: Date.now().toString(36),
+              enabled: true,
+              folder: '',
+              project: '',
+              olderThanDays: DEFAULT_ARCHIVE_DAYS,
+              destination: 'file',
+              target: DEFAULT_ARCHIVE_FILE
+            }
+          ];
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+  }
+
+  /**
+   * Replace one archive rule without mutating the others
+   */
+  private async updateArchiveRule(index: number, changes: Partial<ArchiveRule>): Promise<void> {
+    this.plugin.settings.archiveRules = this.plugin.settings.archiveRules.map((rule, i) =>
+      i === index ? { ...rule, ...changes } : rule
+    );
+    await this.plugin.saveSettings();
   }
 
   private renderAppearanceSection(container: HTMLElement): void {
@@ -616,7 +909,7 @@ export class TaskConsolidatorSettingTab extends PluginSettingTab {
 
     new Setting(container)
       .setName('Enable Task Cache')
-      .setDesc('Cache parsed tasks for better performance')
+      .setDesc('Keep an index of parsed tasks on disk so startup only re-reads notes that changed')
       .addToggle(toggle => {
         toggle.setValue(this.plugin.settings.enableTaskCache);
         toggle.onChange(async (value) => {
@@ -7,7 +7,8 @@ import {
   DateFormat,
   FilePathDisplay,
   ViewType,
-  KanbanColumn
+  KanbanColumn,
+  TaskStatus
 } from './index';
 
 // ========================================
@@ -22,6 +23,20 @@ export const STAGES: Stage[] = [
   'Completed'
 ];
 
+// ========================================
+// Task Status Constants
+// ========================================
+
+export const DEFAULT_TASK_STATUSES: TaskStatus[] = [
+  { symbol: ' ', name: 'To Do', isDone: false, stage: null, nextSymbol: 'x' },
+  { symbol: 'x', name: 'Done', isDone: true, stage: 'Completed', nextSymbol: ' ' },
+  { symbol: 'X', name: 'Done', isDone: true, stage: 'Completed', nextSymbol: ' ' },
+  { symbol: '/', name: 'In Progress', isDone: false, stage: 'In-Progress', nextSymbol: 'x' },
+  { symbol: '-', name: 'Cancelled', isDone: true, stage: null, nextSymbol: ' ' },
+  { symbol: '>', name: 'Deferred', isDone: false, stage: null, nextSymbol: 'x' },
+  { symbol: '?', name: 'Question', isDone: false, stage: null, nextSymbol: 'x' }
+];
+
 // ========================================
 // Priority Constants
 // ========================================
@@ -112,6 +127,15 @@ export const VIEW_TYPES: ViewType[] = ['panel', 'kanban', 'calendar'];
 
 export const TASK_VIEW_TYPE = 'task-consolidator-view';
 
+// Side view listing the undo and redo history
+export const TASK_HISTORY_VIEW_TYPE = 'task-consolidator-history';
+
+// Side view listing malformed tasks with their fixes
+export const TASK_HEALTH_VIEW_TYPE = 'task-consolidator-health';
+
+// Language of embedded task query code blocks
+export const TASK_QUERY_BLOCK = 'task-consolidator';
+
 // ========================================
 // Day Names
 // ========================================
@@ -180,24 +204,65 @@ export const VALIDATION_LIMITS = {
 // ========================================
 
 export const PATTERNS = {
-  TASK_LINE: /^(\s*)-\s+\[([ xX])\]\s+(.+)$/,
+  TASK_LINE: /^(\s*)-\s+\[([^\]])\]\s+(.+)$/,
   METADATA: /^\*\*(.+?):\*\*\s*(.*)$/,
   DATE: /^\d{4}-\d{2}-\d{2}$/,
   DATE_WITH_PREFIX: /^(?:Due\s+)?(\d{4}-\d{2}-\d{2})$/i,
-  COMPLETED_DATE: /\s*\[done:(\d{4}-\d{2}-\d{2})\]\s*$/,
-  CREATED_DATE: /\s*\[created:(\d{4}-\d{2}-\d{2})\]\s*$/,
+  COMPLETED_DATE: /\[done:(\d{4}-\d{2}-\d{2})\]/,
+  CREATED_DATE: /\[created:(\d{4}-\d{2}-\d{2})\]/,
   PRIORITY: /\[priority:(high|medium|low)\]/i,
-  RECURRENCE: /\[repeat:([^\]]+)\]/i,
+  RECURRENCE: /\[repeat:(?!:)([^\]]+)\]/i,
   TAGS: /#([\w\-_]+)/g,
   QUICK_OWNER: /@([\w\s\-.']+?)(?=\s+[#!@]|\s*$)/,
   QUICK_PROJECT: /^#([\w\-_]+)/,
   QUICK_DATE: /!([\w\-/]+)/,
   // Dependency patterns: [blocked-by:task-id] or [blocks:task-id]
-  BLOCKED_BY: /\[blocked-by:([^\]]+)\]/gi,
-  BLOCKS: /\[blocks:([^\]]+)\]/gi,
+  BLOCKED_BY: /\[blocked-by:(?!:)([^\]]+)\]/gi,
+  BLOCKS: /\[blocks:(?!:)([^\]]+)\]/gi,
   // Time tracking patterns
-  ESTIMATE: /\[estimate:([^\]]+)\]/i,
-  TIME_LOGGED: /\[logged:([^\]]+)\]/i
+  ESTIMATE: /\[estimate:(?!:)([^\]]+)\]/i,
+  TIME_LOGGED: /\[logged:(?!:)([^\]]+)\]/i,
+  // Recurring series identity: [series:abc123]
+  SERIES_ID: /\[series:(?!:)([A-Za-z0-9-]+)\]/i,
+  // Obsidian block reference at the end of the line: ^abc123
+  BLOCK_ID: /(?<=^|\s)\^([A-Za-z0-9-]+)(?=\s*$)/,
+  // Lines that open or close regions tasks can't appear in
+  CODE_FENCE: /^\s*(`{3,}|~{3,})(.*)$/,
+  FRONTMATTER_DELIMITER: /^---\s*$/,
+  // Markdown heading, without any closing #s: ## Heading
+  HEADING: /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+};
+
+// ========================================
+// Emoji Format Patterns (Obsidian Tasks)
+// ========================================
+
+export const EMOJI_PATTERNS = {
+  DUE_DATE: /📅\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u,
+  SCHEDULED_DATE: /⏳\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u,
+  START_DATE: /🛫\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u,
+  COMPLETED_DATE: /✅\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u,
+  CREATED_DATE: /➕\uFE0F?\s*(\d{4}-\d{2}-\d{2})/u,
+  RECURRENCE: /🔁\uFE0F?\s*([a-zA-Z0-9, !:;=-]+?)(?=\s*(?:📅|⏳|🛫|✅|➕|🔁|🔺|⏫|🔼|🔽|⏬|#|\[|\^|$))/u,
+  PRIORITY: /(🔺|⏫|🔼|🔽|⏬)\uFE0F?/u
+};
+
+// ========================================
+// Dataview Inline Field Patterns: [key:: value] or (key:: value)
+// ========================================
+
+export const DATAVIEW_PATTERNS = {
+  DUE_DATE: /[[(]due::\s*(\d{4}-\d{2}-\d{2})[^\])]*[\])]/i,
+  SCHEDULED_DATE: /[[(]scheduled::\s*(\d{4}-\d{2}-\d{2})[^\])]*[\])]/i,
+  START_DATE: /[[(]start::\s*(\d{4}-\d{2}-\d{2})[^\])]*[\])]/i,
+  COMPLETED_DATE: /[[(]completion::\s*(\d{4}-\d{2}-\d{2})[^\])]*[\])]/i,
+  CREATED_DATE: /[[(]created::\s*(\d{4}-\d{2}-\d{2})[^\])]*[\])]/i,
+  PRIORITY: /[[(]priority::\s*([^\])]+?)\s*[\])]/i,
+  RECURRENCE: /[[(]repeat::\s*([^\])]+?)\s*[\])]/i,
+  OWNER: /[[(]owner::\s*([^\])]+?)\s*[\])]/i,
+  PROJECT: /[[(]project::\s*([^\])]+?)\s*[\])]/i,
+  STAGE: /[[(]stage::\s*([^\])]+?)\s*[\])]/i,
+  SERIES_ID: /[[(]series::\s*([A-Za-z0-9-]+)\s*[\])]/i
 };
 
 // ========================================
@@ -255,3 +320,13 @@ export const GROUP_ICONS: Record<GroupOption, string> = {
   stage: '📋',
   priority: '⚡'
 };
+
+// ========================================
+// Archive
+// ========================================
+
+// Archive note of a newly added archive rule
+export const DEFAULT_ARCHIVE_FILE = 'Archive/Completed Tasks.md';
+
+// Days a task must have been completed before a new rule archives it
+export const DEFAULT_ARCHIVE_DAYS = 30;
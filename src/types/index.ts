@@ -13,6 +13,7 @@ export type DateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD-MM-YYYY' | 'locale';
 export type FilePathDisplay = 'full' | 'filename' | 'hidden';
 export type ViewType = 'panel' | 'kanban' | 'calendar';
 export type ParentCompletionBehavior = 'manual' | 'auto' | 'cascade';
+export type TaskFormat = 'default' | 'emoji' | 'dataview';
 
 // ========================================
 // Recurrence Interface
@@ -22,10 +23,49 @@ export interface Recurrence {
   type: RecurrenceType;
   interval?: number;
   daysOfWeek?: number[];
+  /** Numbered weekdays within the month: { day: 2, nth: 2 } = 2nd Tuesday, nth -1 = last */
+  nthWeekdays?: RecurrenceWeekday[];
+  /** Days of the month; negative counts from the end (-1 = last day) */
+  daysOfMonth?: number[];
+  /** Months of the year, 1-12, for yearly rules */
+  months?: number[];
+  /** Pick one of the matching days per period (1 = first, -1 = last), like RRULE BYSETPOS */
+  setPosition?: number;
+  /** Occurrences left in the series, including this one */
+  count?: number;
   endDate?: string;
+  /** Skip the holidays listed in settings */
+  skipHolidays?: boolean;
+  /** Count the next occurrence from the completion date instead of the due date */
+  whenDone?: boolean;
+  excludeDates?: string[];
+  /** Single occurrences rescheduled to another date */
+  movedDates?: RecurrenceMove[];
   rawString: string;
 }
 
+export interface RecurrenceWeekday {
+  day: number;
+  nth: number;
+}
+
+export interface RecurrenceMove {
+  from: string;
+  to: string;
+}
+
+// ========================================
+// Task Status Interface
+// ========================================
+
+export interface TaskStatus {
+  symbol: string;          // Character between the checkbox brackets
+  name: string;
+  isDone: boolean;         // Counts as completed
+  stage: Stage | string | null;  // Stage implied when the task has none of its own
+  nextSymbol: string;      // Status the checkbox cycles to when toggled
+}
+
 // ========================================
 // Task Interface
 // ========================================
@@ -34,9 +74,13 @@ export interface Task {
   id: string;
   file: TFile;
   lineNumber: number;
+  blockId: string | null;  // Obsidian block reference (^abc123) giving a stable ID
   text: string;
+  status: string;  // Checkbox symbol, see TaskStatus
   completed: boolean;
   dueDate: string | null;
+  scheduledDate: string | null;
+  startDate: string | null;
   owner: string | null;
   stage: Stage | string | null;
   project: string | null;
@@ -46,6 +90,7 @@ export interface Task {
   priority: Priority | null;
   tags: string[];
   recurrence: Recurrence | null;
+  seriesId: string | null;  // Shared by every instance of a recurring task
   parentId: string | null;
   children: Task[];
   depth: number;
@@ -78,6 +123,8 @@ export interface TaskConsolidatorSettings {
   customStages: string[];
   excludedFolders: string[];
   excludedPatterns: string[];
+  newTaskFormat: TaskFormat;
+  taskStatuses: TaskStatus[];
 
   // Behavior settings
   autoRefresh: boolean;
@@ -88,6 +135,12 @@ export interface TaskConsolidatorSettings {
   // Recurring task settings
   recurringAutoCreate: boolean;
   recurringCreateDaysBefore: number;
+  holidays: string[];
+
+  // Archive settings
+  archiveRules: ArchiveRule[];
+  archiveAutomatically: boolean;
+  lastArchiveRun: number;
 
   // Appearance settings
   compactMode: boolean;
@@ -186,6 +239,36 @@ export interface TaskFilterOptions {
   dueDateFilter?: 'today' | 'thisWeek' | 'overdue' | 'noDueDate';
   dueDateRange?: { start: string; end: string };
   dueDate?: string;
+  query?: QueryNode | null;
+}
+
+// ========================================
+// Search Query AST
+// ========================================
+
+export type QueryField =
+  | 'text' | 'owner' | 'project' | 'stage' | 'status' | 'file' | 'tag' | 'priority'
+  | 'due' | 'scheduled' | 'start' | 'created' | 'done' | 'estimate' | 'logged'
+  | 'recurrence' | 'dependencies' | 'is';
+
+export type QueryOperator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'compare'; field: QueryField; operator: QueryOperator; value: string }
+  | { type: 'has'; field: QueryField; present: boolean }
+  | { type: 'text'; value: string };
+
+/**
+ * Contents of an embedded task query code block
+ */
+export interface TaskBlockQuery {
+  query: QueryNode | null;
+  sortBy: SortOption | null;
+  groupBy: GroupOption;
+  limit: number | null;
 }
 
 // ========================================
@@ -198,6 +281,27 @@ export interface TaskUpdateResult {
   task?: Task;
 }
 
+// ========================================
+// Task Updates
+// ========================================
+
+export interface TaskUpdates {
+  status?: string;
+  completed?: boolean;
+  text?: string;
+  owner?: string | null;
+  dueDate?: string | null;
+  stage?: string | null;
+  project?: string | null;
+  priority?: string | null;
+  tags?: string[];
+  blockedBy?: string[];
+  blocks?: string[];
+  blockId?: string;
+  seriesId?: string;
+  recurrence?: string;
+}
+
 // ========================================
 // Bulk Operation Result
 // ========================================
@@ -208,13 +312,91 @@ export interface BulkOperationResult {
   errors: string[];
 }
 
+// ========================================
+// Task Cache Events
+// ========================================
+
+export interface TaskChange {
+  previous: Task;
+  current: Task;
+}
+
+/** What changed in one file, matched by task ID */
+export interface TaskCacheDiff {
+  added: Task[];
+  updated: TaskChange[];
+  removed: Task[];
+}
+
+/** Files parsed so far in a full refresh, out of those that needed it */
+export interface IndexProgress {
+  done: number;
+  total: number;
+}
+
 // ========================================
 // Cache Entry
 // ========================================
 
 export interface CacheEntry {
+  /** Every task in the file, in line order */
   tasks: Task[];
+  /** The file's top-level tasks, with subtasks linked as children */
+  roots: Task[];
   lastModified: number;
+  size: number;
+}
+
+// ========================================
+// Persisted Task Index
+// ========================================
+
+/** Task as stored on disk; file and hierarchy are restored on load */
+export type SerializedTask = Omit<Task, 'file' | 'parentId' | 'children'>;
+
+export interface TaskIndexFileEntry {
+  path: string;
+  mtime: number;
+  size: number;
+  tasks: SerializedTask[];
+}
+
+export interface TaskIndexData {
+  version: number;
+  parseKey: string;  // Settings the parsed tasks depend on
+  files: TaskIndexFileEntry[];
+}
+
+// ========================================
+// Background Parsing
+// ========================================
+
+/** A task found by Obsidian's metadata cache: its line and where that line starts */
+export interface TaskLocation {
+  line: number;
+  lineStart: number;
+}
+
+export interface ParseSource {
+  path: string;
+  content: string;
+  /** Task lines from the metadata cache; null scans every line */
+  locations: TaskLocation[] | null;
+}
+
+/** A batch of files sent to the parser worker */
+export interface ParseRequest {
+  id: number;
+  files: ParseSource[];
+  customStages: string[];
+  statuses: TaskStatus[];
+}
+
+/** Tasks for each file of a request, in the same order */
+export interface ParseResponse {
+  id: number;
+  tasks: SerializedTask[][];
+  error?: string;
 }
 
 // ========================================
@@ -244,6 +426,7 @@ export interface TaskStats {
   dueToday: number;
   dueThisWeek: number;
   byStage: Record<string, number>;
+  byStatus: Record<string, number>;
   byOwner: Record<string, number>;
   byProject: Record<string, number>;
   byPriority: Record<Priority, number>;
@@ -253,14 +436,42 @@ export interface TaskStats {
 // Undo Entry
 // ========================================
 
-export interface UndoEntry {
+export interface UndoLineChange {
   filePath: string;
   lineNumber: number;
-  originalLine: string;
-  newLine: string;
+  originalLine: string | null;  // Null when the line was inserted
+  newLine: string | null;  // Null when the line was deleted
+  previousLine?: string;  // Line above an inserted or deleted line, to put it back in place
+}
+
+/**
+ * One undoable operation; cascading updates and bulk edits record several
+ * line changes, in the order they were made
+ */
+export interface UndoEntry {
+  id: number;
+  label: string;
+  changes: UndoLineChange[];
   timestamp: number;
 }
 
+/**
+ * Line changes of an operation still running, which become one undo
+ * entry once it finishes. Passed along explicitly, so operations that
+ * overlap in time never record into each other's entry.
+ */
+export interface UndoGroup {
+  changes: UndoLineChange[];
+}
+
+/**
+ * Recent operations for the history view, newest first
+ */
+export interface UndoHistory {
+  undo: UndoEntry[];
+  redo: UndoEntry[];
+}
+
 // ========================================
 // Validation Result
 // ========================================
@@ -278,6 +489,8 @@ export interface ValidationResult {
 export interface ParsedMetadata {
   owner: string | null;
   dueDate: string | null;
+  scheduledDate: string | null;
+  startDate: string | null;
   stage: string | null;
   project: string | null;
   priority: Priority | null;
@@ -289,6 +502,8 @@ export interface ParsedMetadata {
   blocks: string[];
   estimate: string | null;
   timeLogged: string | null;
+  blockId: string | null;
+  seriesId: string | null;
 }
 
 // ========================================
@@ -302,9 +517,28 @@ export interface TaskCreateOptions {
   stage?: string;
   priority?: Priority;
   tags?: string[];
+  recurrence?: string;
+  seriesId?: string;
   atLine?: number;
 }
 
+// ========================================
+// Task Move Target
+// ========================================
+
+export interface TaskMoveTarget {
+  file: TFile;
+  heading: TaskMoveHeading | null;  // Null to move to the end of the file
+}
+
+/**
+ * A heading to move tasks under, found again by its text and level
+ */
+export interface TaskMoveHeading {
+  text: string;
+  level: number;
+}
+
 // ========================================
 // Keyboard Shortcut
 // ========================================
@@ -374,6 +608,26 @@ export interface SavedFilter {
   query: string;
 }
 
+// ========================================
+// Archive Rule
+// ========================================
+
+export type ArchiveDestination = 'file' | 'heading';
+
+/**
+ * Which completed tasks to archive and where. Rules are tried in order
+ * and the first that matches a task decides where it goes.
+ */
+export interface ArchiveRule {
+  id: string;
+  enabled: boolean;
+  folder: string;  // Empty for every folder
+  project: string;  // Empty for every project
+  olderThanDays: number;
+  destination: ArchiveDestination;
+  target: string;  // Archive note path, or a heading in the task's own note
+}
+
 // ========================================
 // Workspace
 // ========================================
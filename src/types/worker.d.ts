@@ -0,0 +1,5 @@
+/** Source of a worker bundled by the `worker:` import in esbuild.config.mjs */
+declare module 'worker:*' {
+  const source: string;
+  export default source;
+}
@@ -6,10 +6,15 @@ import { Task, DependencyStatus, DependencyLink } from '../types';
 
 /**
  * Create a unique short ID from a full task ID
- * Full ID format: "path/to/file.md:lineNumber"
- * Short ID format: "file:line" (for display/syntax)
+ * Full ID format: "path/to/file.md:lineNumber" or "path/to/file.md#^blockId"
+ * Short ID format: "file:line" or "file#^blockId" (for display/syntax)
  */
 export function createShortTaskId(fullId: string): string {
+  const blockMatch = fullId.match(/([^/\\]+)#\^([A-Za-z0-9-]+)$/);
+  if (blockMatch) {
+    return `${blockMatch[1].replace('.md', '')}#^${blockMatch[2]}`;
+  }
+
   const match = fullId.match(/([^/\\]+):(\d+)$/);
   if (match) {
     const filename = match[1].replace('.md', '');
@@ -29,6 +34,13 @@ export function buildShortIdMap(allTasks: Task[]): Map<string, string> {
     map.set(shortId, task.id);
     // Also map full ID to itself for direct lookups
     map.set(task.id, task.id);
+
+    // Tasks with a block ID are also reachable by their stable short ID and
+    // by the line-based ID used before the block ID was added
+    if (task.blockId) {
+      map.set(`${task.file.basename.replace('.md', '')}#^${task.blockId}`, task.id);
+      map.set(`${task.file.path}:${task.lineNumber}`, task.id);
+    }
   }
   return map;
 }
@@ -43,6 +55,15 @@ export function expandShortTaskId(shortId: string, allTasks: Task[]): string | n
     return shortId;
   }
 
+  const blockMatch = shortId.match(/^(.+)#\^([A-Za-z0-9-]+)$/);
+  if (blockMatch) {
+    const [, filename, blockId] = blockMatch;
+    const task = allTasks.find(t =>
+      t.blockId === blockId && t.file.basename.replace('.md', '') === filename
+    );
+    return task ? task.id : null;
+  }
+
   const match = shortId.match(/^([^:]+):(\d+)$/);
   if (!match) return null;
 
@@ -296,6 +317,43 @@ export function sortByDependencyOrder(tasks: Task[], allTasks: Task[]): Task[] {
   return sorted;
 }
 
+/**
+ * Rewrite a task reference for a file renamed from `oldPath` to `newPath`,
+ * or return null when it doesn't point into that file. Short references
+ * name the file by basename, so they are only followed when no other file
+ * has the old basename, and are written as a full path when the new
+ * basename is shared. `basenameCount` counts files by basename after the rename.
+ */
+export function renameTaskReference(
+  ref: string,
+  oldPath: string,
+  newPath: string,
+  basenameCount: (basename: string) => number
+): string | null {
+  const match = ref.match(/^(.+?)(:\d+|#\^[A-Za-z0-9-]+)$/);
+  if (!match) return null;
+
+  const [, target, suffix] = match;
+  if (target === oldPath) {
+    return `${newPath}${suffix}`;
+  }
+
+  const oldBasename = getPathBasename(oldPath);
+  const newBasename = getPathBasename(newPath);
+  if (target !== oldBasename || oldBasename === newBasename || basenameCount(oldBasename) > 0) {
+    return null;
+  }
+
+  return basenameCount(newBasename) > 1 ? `${newPath}${suffix}` : `${newBasename}${suffix}`;
+}
+
+/**
+ * File name without folders or the .md extension, as short IDs use it
+ */
+function getPathBasename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+}
+
 /**
  * Format dependency for display in task line
  */
@@ -3,3 +3,8 @@ export * from './textUtils';
 export * from './validation';
 export * from './dailyNoteUtils';
 export * from './dependencyUtils';
+export * from './statusUtils';
+export * from './searchParser';
+export * from './queryEvaluator';
+export * from './taskSorting';
+export * from './recurrenceUtils';
@@ -0,0 +1,183 @@
+import { Task, TaskStatus, QueryNode, QueryField, QueryOperator, Priority } from '../types';
+import { DEFAULT_TASK_STATUSES } from '../types/constants';
+import { formatDateToISO, getToday, isDueToday, isDueThisWeek, isOverdue } from './dateUtils';
+import { parseDurationToMinutes } from './textUtils';
+import { getTaskStatus } from './statusUtils';
+
+// ========================================
+// Query Evaluation
+// ========================================
+
+export interface QueryContext {
+  firstDayOfWeek: number;
+  taskStatuses: TaskStatus[];
+}
+
+const DEFAULT_CONTEXT: QueryContext = {
+  firstDayOfWeek: 0,
+  taskStatuses: DEFAULT_TASK_STATUSES
+};
+
+const PRIORITY_RANK: Record<Priority, number> = { low: 1, medium: 2, high: 3 };
+
+/**
+ * Check whether a task matches a parsed query
+ */
+export function evaluateQuery(node: QueryNode, task: Task, context: QueryContext = DEFAULT_CONTEXT): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => evaluateQuery(child, task, context));
+    case 'or':
+      return node.children.some(child => evaluateQuery(child, task, context));
+    case 'not':
+      return !evaluateQuery(node.child, task, context);
+    case 'text':
+      return matchesText(task, node.value);
+    case 'has':
+      return hasField(task, node.field) === node.present;
+    case 'compare':
+      // "!=" is the exact negation of "=", so tasks without the field match it
+      return node.operator === '!='
+        ? !compareField(task, node.field, '=', node.value, context)
+        : compareField(task, node.field, node.operator, node.value, context);
+  }
+}
+
+/**
+ * Free text matches the task text, owner, project or tags
+ */
+function matchesText(task: Task, value: string): boolean {
+  const query = value.toLowerCase();
+  return task.text.toLowerCase().includes(query) ||
+    (task.owner?.toLowerCase().includes(query) ?? false) ||
+    (task.project?.toLowerCase().includes(query) ?? false) ||
+    task.tags.some(tag => tag.toLowerCase().includes(query));
+}
+
+function hasField(task: Task, field: QueryField): boolean {
+  switch (field) {
+    case 'tag': return task.tags.length > 0;
+    case 'due': return task.dueDate !== null;
+    case 'scheduled': return task.scheduledDate !== null;
+    case 'start': return task.startDate !== null;
+    case 'created': return task.createdDate !== null;
+    case 'done': return task.completedDate !== null;
+    case 'estimate': return task.estimate !== null;
+    case 'logged': return task.timeLogged !== null;
+    case 'recurrence': return task.recurrence !== null;
+    case 'dependencies': return task.blockedBy.length > 0 || task.blocks.length > 0;
+    case 'owner': return task.owner !== null;
+    case 'project': return task.project !== null;
+    case 'stage': return task.stage !== null;
+    case 'priority': return task.priority !== null;
+    default: return false;
+  }
+}
+
+function compareField(
+  task: Task,
+  field: QueryField,
+  operator: QueryOperator,
+  value: string,
+  context: QueryContext
+): boolean {
+  switch (field) {
+    case 'text':
+      return task.text.toLowerCase().includes(value.toLowerCase());
+    case 'owner':
+      return equalsIgnoreCase(task.owner, value);
+    case 'project':
+      return equalsIgnoreCase(task.project, value);
+    case 'stage':
+      return equalsIgnoreCase(task.stage, value);
+    case 'status': {
+      const status = getTaskStatus(task.status, context.taskStatuses);
+      return status.symbol === value || equalsIgnoreCase(status.name, value);
+    }
+    case 'file':
+      return task.file.path.toLowerCase().includes(value.toLowerCase());
+    case 'tag':
+      return task.tags.some(tag => tag.toLowerCase() === value);
+    case 'priority':
+      return task.priority !== null &&
+        compareValues(PRIORITY_RANK[task.priority], PRIORITY_RANK[value as Priority], operator);
+    case 'due':
+      return compareDate(task.dueDate, operator, value, task, context);
+    case 'scheduled':
+      return compareDate(task.scheduledDate, operator, value, task, context);
+    case 'start':
+      return compareDate(task.startDate, operator, value, task, context);
+    case 'created':
+      return compareDate(task.createdDate, operator, value, task, context);
+    case 'done':
+      return compareDate(task.completedDate, operator, value, task, context);
+    case 'estimate':
+      return compareDuration(task.estimate, operator, value);
+    case 'logged':
+      return compareDuration(task.timeLogged, operator, value);
+    case 'is':
+      return matchesFlag(task, value);
+    default:
+      return false;
+  }
+}
+
+function equalsIgnoreCase(actual: string | null, expected: string): boolean {
+  return actual !== null && actual.toLowerCase() === expected.toLowerCase();
+}
+
+function compareValues<T extends number | string>(actual: T, expected: T, operator: QueryOperator): boolean {
+  switch (operator) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    default: return actual === expected;
+  }
+}
+
+/**
+ * Compare an ISO date field; `value` is an ISO date or thisweek/overdue/none
+ */
+function compareDate(
+  date: string | null,
+  operator: QueryOperator,
+  value: string,
+  task: Task,
+  context: QueryContext
+): boolean {
+  if (value === 'overdue' && task.completed) return false;
+  return matchesDate(date, operator, value, context);
+}
+
+/**
+ * Compare a date on its own; "overdue" only checks that it is in the past
+ */
+export function matchesDate(
+  date: string | null,
+  operator: QueryOperator,
+  value: string,
+  context: QueryContext = DEFAULT_CONTEXT
+): boolean {
+  if (value === 'none') return date === null;
+  if (date === null) return false;
+  if (value === 'thisweek') return isDueThisWeek(date, context.firstDayOfWeek);
+  if (value === 'overdue') return date < formatDateToISO(getToday());
+  return compareValues(date, value, operator);
+}
+
+function compareDuration(duration: string | null, operator: QueryOperator, value: string): boolean {
+  const minutes = duration ? parseDurationToMinutes(duration) : null;
+  return minutes !== null && compareValues(minutes, parseInt(value, 10), operator);
+}
+
+function matchesFlag(task: Task, flag: string): boolean {
+  switch (flag) {
+    case 'done': return task.completed;
+    case 'open': return !task.completed;
+    case 'overdue': return !task.completed && isOverdue(task.dueDate);
+    case 'today': return isDueToday(task.dueDate);
+    case 'recurring': return task.recurrence !== null;
+    default: return false;
+  }
+}
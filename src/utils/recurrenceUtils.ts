@@ -0,0 +1,685 @@
+import { Recurrence, RecurrenceType, RecurrenceWeekday, RecurrenceMove } from '../types';
+import { RECURRENCE_TYPES } from '../types/constants';
+import { parseISODate, formatDateToISO, addDays, getToday } from './dateUtils';
+
+// ========================================
+// Recurrence Vocabulary
+// ========================================
+
+const DAY_NAMES: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6
+};
+
+const DAY_LABELS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, last: -1
+};
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const RRULE_FREQUENCIES: Record<string, RecurrenceType> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly'
+};
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+
+const WHEN_DONE = /,?\s+when done$/i;
+
+const MOVE = '\\d{4}-\\d{2}-\\d{2} to \\d{4}-\\d{2}-\\d{2}';
+const MOVED_MODIFIER = new RegExp(`^(.+?),? moved (${MOVE}(?:(?:, ?| and )${MOVE})*)$`);
+
+// Upper bound on periods scanned, so rules that can never match terminate
+const MAX_PERIODS = 5000;
+
+type RecurrenceRule = Omit<Recurrence, 'rawString'>;
+
+// ========================================
+// Parsing
+// ========================================
+
+/**
+ * Parse a recurrence string into a Recurrence object.
+ *
+ * Accepts iCalendar RRULE strings (RRULE:FREQ=MONTHLY;BYDAY=2TU) and phrases
+ * like "every 2 weeks on mon, thu", "every 2nd tuesday", "last weekday of the
+ * month", "every 3 months on the 15th" or "every year on march 15", followed
+ * by any of "when done", "except holidays", "for 10 times", "until 2027-01-01"
+ * and "moved 2026-11-03 to 2026-11-04". An RRULE takes the same modifiers.
+ */
+export function parseRecurrence(recurrenceStr: string): Recurrence | null {
+  const parsed = parseModifiers(recurrenceStr.trim().toLowerCase().replace(/\s+/g, ' '));
+  if (!parsed) return null;
+
+  const rule = /^(rrule:|freq=)/.test(parsed.text) ? parseRRule(parsed.text) : parseRuleText(parsed.text);
+  return rule ? { ...rule, ...parsed.modifiers, rawString: recurrenceStr } : null;
+}
+
+/**
+ * Strip trailing modifiers, in any order, off a normalized recurrence string
+ */
+function parseModifiers(input: string): { text: string; modifiers: Partial<RecurrenceRule> } | null {
+  let text = input;
+  const modifiers: Partial<RecurrenceRule> = {};
+
+  // Trailing modifiers, in any order
+  for (;;) {
+    if (WHEN_DONE.test(text)) {
+      modifiers.whenDone = true;
+      text = text.replace(WHEN_DONE, '');
+      continue;
+    }
+
+    const until = text.match(/^(.+?),? until (\d{4}-\d{2}-\d{2})$/);
+    if (until) {
+      if (!parseISODate(until[2])) return null;
+      modifiers.endDate = until[2];
+      text = until[1];
+      continue;
+    }
+
+    const count = text.match(/^(.+?),? for (\d+) times?$/);
+    if (count) {
+      modifiers.count = parseInt(count[2], 10);
+      if (modifiers.count < 1) return null;
+      text = count[1];
+      continue;
+    }
+
+    // Checked before "except", whose date list would swallow the moves
+    const moved = text.match(MOVED_MODIFIER);
+    if (moved) {
+      const moves: RecurrenceMove[] = [];
+      for (const [, from, to] of moved[2].matchAll(/(\d{4}-\d{2}-\d{2}) to (\d{4}-\d{2}-\d{2})/g)) {
+        if (!parseISODate(from) || !parseISODate(to)) return null;
+        moves.push({ from, to });
+      }
+      modifiers.movedDates = [...moves, ...(modifiers.movedDates ?? [])];
+      text = moved[1];
+      continue;
+    }
+
+    const except = text.match(/^(.+?),? except (.+)$/);
+    if (except) {
+      for (const item of except[2].split(/,\s*|\s+and\s+|\s+/)) {
+        if (item === 'holidays') {
+          modifiers.skipHolidays = true;
+        } else if (parseISODate(item)) {
+          modifiers.excludeDates = [...(modifiers.excludeDates ?? []), item];
+        } else {
+          return null;
+        }
+      }
+      text = except[1];
+      continue;
+    }
+
+    break;
+  }
+
+  return { text, modifiers };
+}
+
+/**
+ * Parse the rule part of a recurrence phrase, without modifiers
+ */
+function parseRuleText(text: string): RecurrenceRule | null {
+  // Simple type match (daily, weekly, monthly, yearly, custom)
+  if (RECURRENCE_TYPES.includes(text as RecurrenceType)) {
+    return { type: text as RecurrenceType };
+  }
+
+  if (text === 'weekdays' || text === 'every weekday') {
+    return { type: 'weekly', daysOfWeek: WEEKDAYS };
+  }
+  if (text === 'weekends' || text === 'every weekend') {
+    return { type: 'weekly', daysOfWeek: WEEKEND };
+  }
+
+  // "every X days/weeks/months/years" or "every day/week/month/year" (Obsidian Tasks style)
+  const intervalMatch = text.match(/^every (?:(\d+|other) )?(day|week|month|year)s?$/);
+  if (intervalMatch) {
+    const interval = parseInterval(intervalMatch[1]);
+    if (interval === null) return null;
+    const unit = intervalMatch[2];
+    const type: RecurrenceType = unit === 'day' ? 'daily' : unit === 'week' ? 'weekly' : unit === 'month' ? 'monthly' : 'yearly';
+    return { type, interval };
+  }
+
+  // "every 2 weeks on mon, thu"
+  const weeksOn = text.match(/^every (?:(\d+|other) )?weeks? on (.+)$/);
+  if (weeksOn) {
+    const interval = parseInterval(weeksOn[1]);
+    const daysOfWeek = parseDayList(weeksOn[2]);
+    return interval !== null && daysOfWeek ? { type: 'weekly', interval, daysOfWeek } : null;
+  }
+
+  // "every 3 months on the 15th", "every month on the last weekday"
+  const monthsOn = text.match(/^every (?:(\d+|other) )?months? on (?:the )?(.+)$/);
+  if (monthsOn) {
+    const interval = parseInterval(monthsOn[1]);
+    const spec = parseMonthDaySpec(monthsOn[2]);
+    return interval !== null && spec ? { type: 'monthly', interval, ...spec } : null;
+  }
+
+  // "last weekday of the month", "every 2nd tuesday of the month"
+  const ofMonth = text.match(/^(?:every |on )?(?:the )?(.+?) of (?:the|every|each) month$/);
+  if (ofMonth) {
+    const spec = parseMonthDaySpec(ofMonth[1]);
+    return spec ? { type: 'monthly', ...spec } : null;
+  }
+
+  // "every year on march 15"
+  const yearsOn = text.match(/^every (?:(\d+|other) )?years? on ([a-z]+) (\d{1,2})(?:st|nd|rd|th)?$/);
+  if (yearsOn) {
+    const interval = parseInterval(yearsOn[1]);
+    const month = MONTH_NAMES.findIndex(m => m === yearsOn[2] || m.slice(0, 3) === yearsOn[2]);
+    const day = parseInt(yearsOn[3], 10);
+    if (interval === null || month < 0 || day < 1 || day > 31) return null;
+    return { type: 'yearly', interval, months: [month + 1], daysOfMonth: [day] };
+  }
+
+  // "every other tuesday"
+  const otherDays = text.match(/^every other (.+)$/);
+  if (otherDays) {
+    const daysOfWeek = parseDayList(otherDays[1]);
+    return daysOfWeek ? { type: 'weekly', interval: 2, daysOfWeek } : null;
+  }
+
+  // "every 2nd tuesday", "every last friday": numbered weekday of each month
+  const nthDay = text.match(/^every ([a-z0-9]+) ([a-z]+)$/);
+  if (nthDay && parseOrdinal(nthDay[1]) !== null && DAY_NAMES[nthDay[2]] !== undefined) {
+    return { type: 'monthly', nthWeekdays: [{ day: DAY_NAMES[nthDay[2]], nth: parseOrdinal(nthDay[1])! }] };
+  }
+
+  // "every monday, wednesday and friday" or "every mon,wed,fri"
+  const daysMatch = text.match(/^every (.+)$/);
+  if (daysMatch) {
+    const daysOfWeek = parseDayList(daysMatch[1]);
+    return daysOfWeek ? { type: 'weekly', daysOfWeek } : null;
+  }
+
+  return null;
+}
+
+function parseInterval(value: string | undefined): number | null {
+  if (value === undefined) return 1;
+  if (value === 'other') return 2;
+  const interval = parseInt(value, 10);
+  return interval >= 1 ? interval : null;
+}
+
+/**
+ * "1st", "2nd", "third", "last" -> 1, 2, 3, -1
+ */
+function parseOrdinal(value: string): number | null {
+  if (ORDINAL_WORDS[value] !== undefined) return ORDINAL_WORDS[value];
+  const match = value.match(/^(\d{1,2})(?:st|nd|rd|th)$/);
+  if (!match) return null;
+  const n = parseInt(match[1], 10);
+  return n >= 1 && n <= 31 ? n : null;
+}
+
+/**
+ * "mon, wed and fri" -> [1, 3, 5]; null if any name is unknown
+ */
+function parseDayList(value: string): number[] | null {
+  const days: number[] = [];
+  for (const name of value.split(/,\s*|\s+and\s+/)) {
+    const day = DAY_NAMES[name.trim()];
+    if (day === undefined) return null;
+    if (!days.includes(day)) days.push(day);
+  }
+  return days.sort((a, b) => a - b);
+}
+
+/**
+ * Which day(s) of a month: "15th", "1st and 15th", "last day",
+ * "2nd tuesday" or "last weekday"
+ */
+function parseMonthDaySpec(spec: string): Partial<RecurrenceRule> | null {
+  const parts = spec.split(/,\s*|\s+and\s+/);
+  if (parts.every(p => /^\d{1,2}(?:st|nd|rd|th)?$/.test(p))) {
+    const days = parts.map(p => parseInt(p, 10));
+    return days.every(d => d >= 1 && d <= 31) ? { daysOfMonth: days } : null;
+  }
+
+  const match = spec.match(/^([a-z0-9]+) ([a-z]+)$/);
+  if (!match) return null;
+  const nth = parseOrdinal(match[1]);
+  if (nth === null) return null;
+
+  switch (match[2]) {
+    case 'day':
+      return { daysOfMonth: [nth] };
+    case 'weekday':
+      return { daysOfWeek: WEEKDAYS, setPosition: nth };
+    case 'weekend':
+      return { daysOfWeek: WEEKEND, setPosition: nth };
+    default: {
+      const day = DAY_NAMES[match[2]];
+      return day !== undefined ? { nthWeekdays: [{ day, nth }] } : null;
+    }
+  }
+}
+
+/**
+ * Parse an iCalendar RRULE (the RRULE: prefix is optional)
+ */
+function parseRRule(raw: string): RecurrenceRule | null {
+  const rule: Partial<RecurrenceRule> = {};
+
+  for (const part of raw.replace(/^rrule:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, value = ''] = part.toUpperCase().split('=');
+    const numbers = value.split(',').map(v => parseInt(v, 10));
+
+    switch (key) {
+      case 'FREQ':
+        if (!RRULE_FREQUENCIES[value]) return null;
+        rule.type = RRULE_FREQUENCIES[value];
+        break;
+      case 'INTERVAL':
+        if (!(numbers[0] >= 1)) return null;
+        rule.interval = numbers[0];
+        break;
+      case 'COUNT':
+        if (!(numbers[0] >= 1)) return null;
+        rule.count = numbers[0];
+        break;
+      case 'UNTIL': {
+        const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+        if (!match || !parseISODate(`${match[1]}-${match[2]}-${match[3]}`)) return null;
+        rule.endDate = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'BYDAY':
+        for (const item of value.split(',')) {
+          const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) return null;
+          const day = RRULE_DAYS.indexOf(match[2]);
+          if (match[1]) {
+            rule.nthWeekdays = [...(rule.nthWeekdays ?? []), { day, nth: parseInt(match[1], 10) }];
+          } else {
+            rule.daysOfWeek = [...(rule.daysOfWeek ?? []), day];
+          }
+        }
+        break;
+      case 'BYMONTHDAY':
+        if (numbers.some(n => isNaN(n) || n === 0 || Math.abs(n) > 31)) return null;
+        rule.daysOfMonth = numbers;
+        break;
+      case 'BYMONTH':
+        if (numbers.some(n => isNaN(n) || n < 1 || n > 12)) return null;
+        rule.months = numbers;
+        break;
+      case 'BYSETPOS':
+        if (isNaN(numbers[0]) || numbers[0] === 0) return null;
+        rule.setPosition = numbers[0];
+        break;
+      case 'WKST':
+        // Weeks always start on Monday
+        break;
+      default:
+        return null;
+    }
+  }
+
+  return rule.type ? rule as RecurrenceRule : null;
+}
+
+// ========================================
+// Serialization
+// ========================================
+
+/**
+ * Write a recurrence back out in the style it was read in (RRULE or phrase)
+ */
+export function formatRecurrence(recurrence: Recurrence): string {
+  if (!/^(rrule:|freq=)/i.test(recurrence.rawString.trim())) {
+    return describeRecurrence(recurrence);
+  }
+
+  const parts = [toRRule(recurrence)];
+  if (recurrence.whenDone) parts.push('when done');
+  return [...parts, ...describeExceptions(recurrence)].join(' ');
+}
+
+/**
+ * Render a recurrence as an iCalendar RRULE. "When done", holiday and date
+ * exceptions and moved occurrences have no RRULE equivalent and are left out.
+ */
+export function toRRule(recurrence: Recurrence): string {
+  const parts = [`FREQ=${recurrence.type === 'custom' ? 'DAILY' : recurrence.type.toUpperCase()}`];
+  const interval = recurrence.interval ?? 1;
+
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+
+  const byDay = [
+    ...(recurrence.nthWeekdays ?? []).map(w => `${w.nth}${RRULE_DAYS[w.day]}`),
+    ...(recurrence.daysOfWeek ?? []).map(d => RRULE_DAYS[d])
+  ];
+  if (byDay.length > 0) parts.push(`BYDAY=${byDay.join(',')}`);
+  if (recurrence.daysOfMonth?.length) parts.push(`BYMONTHDAY=${recurrence.daysOfMonth.join(',')}`);
+  if (recurrence.months?.length) parts.push(`BYMONTH=${recurrence.months.join(',')}`);
+  if (recurrence.setPosition) parts.push(`BYSETPOS=${recurrence.setPosition}`);
+  if (recurrence.count !== undefined) parts.push(`COUNT=${recurrence.count}`);
+  if (recurrence.endDate) parts.push(`UNTIL=${recurrence.endDate.replace(/-/g, '')}`);
+
+  return `RRULE:${parts.join(';')}`;
+}
+
+/**
+ * Render a recurrence as a phrase that parseRecurrence reads back
+ */
+export function describeRecurrence(recurrence: Recurrence): string {
+  const parts = [describeRule(recurrence)];
+
+  if (recurrence.whenDone) parts.push('when done');
+  parts.push(...describeExceptions(recurrence));
+  if (recurrence.count !== undefined) parts.push(`for ${recurrence.count} ${recurrence.count === 1 ? 'time' : 'times'}`);
+  if (recurrence.endDate) parts.push(`until ${recurrence.endDate}`);
+
+  return parts.join(' ');
+}
+
+/**
+ * The "except ..." and "moved ... to ..." modifiers
+ */
+function describeExceptions(recurrence: Recurrence): string[] {
+  const parts: string[] = [];
+  const exceptions = [
+    ...(recurrence.skipHolidays ? ['holidays'] : []),
+    ...(recurrence.excludeDates ?? [])
+  ];
+  if (exceptions.length > 0) parts.push(`except ${exceptions.join(', ')}`);
+
+  const moves = recurrence.movedDates ?? [];
+  if (moves.length > 0) parts.push(`moved ${moves.map(m => `${m.from} to ${m.to}`).join(', ')}`);
+
+  return parts;
+}
+
+function describeRule(recurrence: Recurrence): string {
+  const interval = recurrence.interval ?? 1;
+  const every = (unit: string) => interval > 1 ? `every ${interval} ${unit}s` : `every ${unit}`;
+  const days = recurrence.daysOfWeek ?? [];
+
+  switch (recurrence.type) {
+    case 'weekly':
+      if (days.length === 0) return every('week');
+      if (interval > 1) return `${every('week')} on ${formatDayList(days)}`;
+      if (sameDays(days, WEEKDAYS)) return 'every weekday';
+      if (sameDays(days, WEEKEND)) return 'every weekend';
+      return `every ${formatDayList(days)}`;
+
+    case 'monthly': {
+      const spec = describeMonthDays(recurrence);
+      return spec ? `${every('month')} on the ${spec}` : every('month');
+    }
+
+    case 'yearly': {
+      const month = recurrence.months?.length === 1 ? recurrence.months[0] : null;
+      const day = recurrence.daysOfMonth?.length === 1 ? recurrence.daysOfMonth[0] : null;
+      return month !== null && day !== null && day > 0
+        ? `${every('year')} on ${MONTH_NAMES[month - 1]} ${day}`
+        : every('year');
+    }
+
+    default:
+      return every('day');
+  }
+}
+
+function describeMonthDays(recurrence: Recurrence): string | null {
+  const weekday = recurrence.nthWeekdays?.[0];
+  if (weekday) return `${formatOrdinal(weekday.nth)} ${DAY_LABELS[weekday.day]}`;
+
+  if (recurrence.setPosition && recurrence.daysOfWeek) {
+    if (sameDays(recurrence.daysOfWeek, WEEKDAYS)) return `${formatOrdinal(recurrence.setPosition)} weekday`;
+    if (sameDays(recurrence.daysOfWeek, WEEKEND)) return `${formatOrdinal(recurrence.setPosition)} weekend`;
+  }
+
+  const monthDays = recurrence.daysOfMonth ?? [];
+  if (monthDays.length === 1 && monthDays[0] < 0) return `${formatOrdinal(monthDays[0])} day`;
+  if (monthDays.length > 0) return monthDays.map(formatOrdinal).join(' and ');
+
+  return null;
+}
+
+function formatOrdinal(n: number): string {
+  if (n === -1) return 'last';
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+function formatDayList(days: number[]): string {
+  return days.map(d => DAY_LABELS[d].slice(0, 3)).join(', ');
+}
+
+function sameDays(a: number[], b: number[]): boolean {
+  return a.length === b.length && [...a].sort().every((d, i) => d === [...b].sort()[i]);
+}
+
+// ========================================
+// Occurrences
+// ========================================
+
+export interface RecurrenceContext {
+  /** ISO dates skipped by rules written with "except holidays" */
+  holidays?: string[];
+}
+
+/**
+ * The next occurrence after `from` (the current due date; today when null),
+ * or null when the series has ended
+ */
+export function getNextOccurrence(
+  recurrence: Recurrence,
+  from: string | null,
+  context: RecurrenceContext = {}
+): string | null {
+  return getOccurrences(recurrence, from, 1, context)[0] ?? null;
+}
+
+/**
+ * Up to `limit` occurrences after `from`, in order. `from` is the current
+ * occurrence: the interval counts from it, and it uses up one of `count`.
+ * Moved occurrences are returned on their new date; a `from` that is a
+ * moved occurrence counts from its original date.
+ */
+export function getOccurrences(
+  recurrence: Recurrence,
+  from: string | null,
+  limit: number,
+  context: RecurrenceContext = {}
+): string[] {
+  const fromISO = formatDateToISO((from ? parseISODate(from) : null) ?? getToday());
+  const start = parseISODate(getOriginalOccurrence(recurrence, fromISO))!;
+  const startISO = formatDateToISO(start);
+  const maxResults = recurrence.count !== undefined ? recurrence.count - 1 : Infinity;
+  const wanted = Math.min(limit, maxResults);
+  const interval = Math.max(1, recurrence.interval ?? 1);
+  const skipped = new Set([
+    ...(recurrence.excludeDates ?? []),
+    ...(recurrence.skipHolidays ? context.holidays ?? [] : [])
+  ]);
+  const moves = new Map((recurrence.movedDates ?? []).map(m => [m.from, m.to]));
+
+  // Keep going past `wanted` until no moved occurrence can land earlier
+  const latestMove = [...moves.values()].reduce((latest, to) => to > latest ? to : latest, '');
+  let lastOriginal = '';
+  let generated = 0;
+  let ended = false;
+
+  // Occurrences moved from before `from` to after it
+  const results = (recurrence.movedDates ?? [])
+    .filter(m => m.from <= startISO && m.to > fromISO)
+    .map(m => m.to);
+
+  for (let period = 0; period < MAX_PERIODS && !ended; period++) {
+    for (const date of getPeriodDates(recurrence, start, period * interval)) {
+      const iso = formatDateToISO(date);
+      if (iso <= startISO || skipped.has(iso)) continue;
+      if ((recurrence.endDate && iso > recurrence.endDate) || generated >= maxResults) {
+        ended = true;
+        break;
+      }
+
+      generated++;
+      lastOriginal = iso;
+      const occurrence = moves.get(iso) ?? iso;
+      if (occurrence > fromISO) results.push(occurrence);
+    }
+    if (results.length >= wanted && lastOriginal >= latestMove) break;
+  }
+
+  return results.sort().slice(0, wanted);
+}
+
+/**
+ * The date an occurrence was generated on, before it was moved
+ */
+export function getOriginalOccurrence(recurrence: Recurrence, date: string): string {
+  return recurrence.movedDates?.find(m => m.to === date)?.from ?? date;
+}
+
+/**
+ * Skip a single occurrence, given by its current date
+ */
+export function skipOccurrence(recurrence: Recurrence, date: string): Recurrence {
+  const original = getOriginalOccurrence(recurrence, date);
+  const excludeDates = [...new Set([...(recurrence.excludeDates ?? []), original])].sort();
+  return withMoves({ ...recurrence, excludeDates }, (recurrence.movedDates ?? []).filter(m => m.from !== original));
+}
+
+/**
+ * Reschedule a single occurrence, given by its current date, to another date
+ */
+export function moveOccurrence(recurrence: Recurrence, date: string, to: string): Recurrence {
+  const original = getOriginalOccurrence(recurrence, date);
+  const moves = (recurrence.movedDates ?? []).filter(m => m.from !== original);
+  if (to !== original) moves.push({ from: original, to });
+  return withMoves(recurrence, moves.sort((a, b) => a.from.localeCompare(b.from)));
+}
+
+/**
+ * The rule without skipped and moved dates that can't affect occurrences
+ * after `date` any more, given by its current date. A move onto `date`
+ * is kept: it tells the occurrence's original date.
+ */
+export function dropPastExceptions(recurrence: Recurrence, date: string): Recurrence {
+  const original = getOriginalOccurrence(recurrence, date);
+  const excludeDates = (recurrence.excludeDates ?? []).filter(d => d > original);
+  const next: Recurrence = { ...recurrence, excludeDates };
+  if (excludeDates.length === 0) delete next.excludeDates;
+  return withMoves(next, (recurrence.movedDates ?? []).filter(m => m.from > original || m.to >= date));
+}
+
+function withMoves(recurrence: Recurrence, moves: RecurrenceMove[]): Recurrence {
+  const next: Recurrence = { ...recurrence, movedDates: moves };
+  if (moves.length === 0) delete next.movedDates;
+  return next;
+}
+
+/**
+ * Candidate dates, ascending, for the period `offset` units after the one containing `start`
+ */
+function getPeriodDates(recurrence: Recurrence, start: Date, offset: number): Date[] {
+  switch (recurrence.type) {
+    case 'weekly': {
+      // Weeks start on Monday, as in RRULE
+      const weekStart = addDays(start, offset * 7 - (start.getDay() + 6) % 7);
+      const days = recurrence.daysOfWeek?.length ? recurrence.daysOfWeek : [start.getDay()];
+      return days
+        .map(day => addDays(weekStart, (day + 6) % 7))
+        .sort((a, b) => a.getTime() - b.getTime());
+    }
+
+    case 'monthly':
+      return getMonthDates(recurrence, start.getFullYear(), start.getMonth() + offset, start.getDate());
+
+    case 'yearly': {
+      const year = start.getFullYear() + offset;
+      const months = recurrence.months?.length ? recurrence.months.map(m => m - 1) : [start.getMonth()];
+      return months
+        .sort((a, b) => a - b)
+        .flatMap(month => getMonthDates(recurrence, year, month, start.getDate()));
+    }
+
+    default: {
+      const date = addDays(start, offset);
+      const days = recurrence.daysOfWeek;
+      return !days?.length || days.includes(date.getDay()) ? [date] : [];
+    }
+  }
+}
+
+/**
+ * Matching dates in one month. Without day rules the start date's day is
+ * used, moved back to the month's last day when the month is shorter.
+ */
+function getMonthDates(recurrence: Recurrence, year: number, month: number, defaultDay: number): Date[] {
+  const first = new Date(year, month, 1);
+  const y = first.getFullYear();
+  const m = first.getMonth();
+  const lastDay = new Date(y, m + 1, 0).getDate();
+  const weekdayOf = (day: number) => new Date(y, m, day).getDay();
+
+  const sets: number[][] = [];
+
+  if (recurrence.daysOfMonth?.length) {
+    sets.push(recurrence.daysOfMonth.map(d => d > 0 ? d : lastDay + d + 1));
+  }
+  if (recurrence.nthWeekdays?.length) {
+    sets.push(recurrence.nthWeekdays.map(w => nthWeekdayOfMonth(w, lastDay, weekdayOf)));
+  }
+  if (recurrence.daysOfWeek?.length) {
+    const all: number[] = [];
+    for (let day = 1; day <= lastDay; day++) {
+      if (recurrence.daysOfWeek.includes(weekdayOf(day))) all.push(day);
+    }
+    sets.push(all);
+  }
+
+  // Several rules narrow each other down, like BYMONTHDAY=13;BYDAY=FR
+  let days = sets.length === 0
+    ? [Math.min(defaultDay, lastDay)]
+    : sets.reduce((acc, set) => acc.filter(d => set.includes(d)));
+  days = [...new Set(days)].filter(d => d >= 1 && d <= lastDay).sort((a, b) => a - b);
+
+  if (recurrence.setPosition) {
+    const index = recurrence.setPosition > 0 ? recurrence.setPosition - 1 : days.length + recurrence.setPosition;
+    days = index >= 0 && index < days.length ? [days[index]] : [];
+  }
+
+  return days.map(day => new Date(y, m, day));
+}
+
+function nthWeekdayOfMonth(
+  weekday: RecurrenceWeekday,
+  lastDay: number,
+  weekdayOf: (day: number) => number
+): number {
+  if (weekday.nth > 0) {
+    const firstMatch = 1 + (weekday.day - weekdayOf(1) + 7) % 7;
+    return firstMatch + (weekday.nth - 1) * 7;
+  }
+  const lastMatch = lastDay - (weekdayOf(lastDay) - weekday.day + 7) % 7;
+  return lastMatch + (weekday.nth + 1) * 7;
+}
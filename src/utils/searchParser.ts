@@ -1,82 +1,451 @@
-import { TaskFilterOptions, Priority } from '../types';
+import { QueryNode, QueryField, QueryOperator, Priority, TaskBlockQuery } from '../types';
+import { PRIORITIES, SORT_OPTIONS, GROUP_OPTIONS } from '../types/constants';
 import { parseNaturalDate } from './dateUtils';
+import { parseDurationToMinutes } from './textUtils';
+
+// ========================================
+// Query Errors
+// ========================================
 
 /**
- * Parse a search query string with operator support.
- * Operators: owner:, project:, stage:, priority:, due:, tag:/#tag, file:
- * Example: "owner:John due:thisweek priority:high #tag search text"
+ * Thrown for an invalid search query; the message is meant to be shown to the user
  */
-export function parseSearchQuery(query: string): TaskFilterOptions & { searchText?: string } {
-  const result: TaskFilterOptions & { searchText?: string } = {};
-  let remaining = query;
-
-  // owner:value
-  const ownerMatch = remaining.match(/\bowner:(\S+)/i);
-  if (ownerMatch) {
-    result.owner = ownerMatch[1];
-    remaining = remaining.replace(ownerMatch[0], '');
+export class QueryParseError extends Error {
+  /** Character offset in the query where the problem was found */
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QueryParseError';
+    this.position = position;
   }
+}
+
+// ========================================
+// Fields
+// ========================================
+
+type FieldKind = 'text' | 'exact' | 'status' | 'path' | 'tag' | 'priority' | 'date' | 'duration' | 'flag';
+
+const FIELD_KINDS: Partial<Record<QueryField, FieldKind>> = {
+  text: 'text',
+  owner: 'exact',
+  project: 'exact',
+  stage: 'exact',
+  status: 'status',
+  file: 'path',
+  tag: 'tag',
+  priority: 'priority',
+  due: 'date',
+  scheduled: 'date',
+  start: 'date',
+  created: 'date',
+  done: 'date',
+  estimate: 'duration',
+  logged: 'duration',
+  is: 'flag'
+};
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  tags: 'tag',
+  path: 'file',
+  completed: 'done',
+  repeat: 'recurrence',
+  blocked: 'dependencies'
+};
+
+// Fields usable with has:/no:
+const PRESENCE_FIELDS: QueryField[] = [
+  'owner', 'project', 'stage', 'priority', 'tag', 'due', 'scheduled', 'start',
+  'created', 'done', 'estimate', 'logged', 'recurrence', 'dependencies'
+];
+
+// Queries match top-level tasks, whose subtasks come along, so there is no is:subtask
+export const QUERY_FLAGS = ['done', 'open', 'overdue', 'today', 'recurring'];
+
+// Date keywords only meaningful as a match, not as a bound
+export const DATE_KEYWORDS = ['thisweek', 'overdue', 'none'];
+
+const ORDERED_KINDS: FieldKind[] = ['priority', 'date', 'duration'];
+
+// ========================================
+// Tokenizer
+// ========================================
 
-  // project:value
-  const projectMatch = remaining.match(/\bproject:(\S+)/i);
-  if (projectMatch) {
-    result.project = projectMatch[1];
-    remaining = remaining.replace(projectMatch[0], '');
+type QueryToken =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; position: number }
+  | { kind: 'term'; position: number; end: number; field: string | null; operator: QueryOperator | null; value: string };
+
+const FIELD_PREFIX = /^([A-Za-z]+)(!=|<=|>=|:|=|<|>)/;
+
+/**
+ * Read a double-quoted string starting at `start`; backslash escapes a quote
+ */
+function readQuoted(query: string, start: number): { value: string; end: number } {
+  let value = '';
+  let i = start + 1;
+
+  while (i < query.length && query[i] !== '"') {
+    if (query[i] === '\\' && i + 1 < query.length) i++;
+    value += query[i];
+    i++;
   }
 
-  // stage:value
-  const stageMatch = remaining.match(/\bstage:(\S+)/i);
-  if (stageMatch) {
-    result.stage = stageMatch[1];
-    remaining = remaining.replace(stageMatch[0], '');
+  if (i >= query.length) {
+    throw new QueryParseError('Missing closing quote', start);
   }
+  return { value, end: i + 1 };
+}
+
+/**
+ * Read an unquoted value up to whitespace or a parenthesis
+ */
+function readBare(query: string, start: number): { value: string; end: number } {
+  let i = start;
+  while (i < query.length && !/[\s()]/.test(query[i])) i++;
+  return { value: query.slice(start, i), end: i };
+}
+
+function tokenize(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
 
-  // priority:value
-  const priorityMatch = remaining.match(/\bpriority:(high|medium|low)/i);
-  if (priorityMatch) {
-    result.priority = priorityMatch[1].toLowerCase() as Priority;
-    remaining = remaining.replace(priorityMatch[0], '');
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+      continue;
+    }
+
+    // Leading "-" negates the following term: -tag:waiting
+    if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ kind: 'not', position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const { value, end } = readQuoted(query, i);
+      tokens.push({ kind: 'term', position: i, end, field: null, operator: null, value });
+      i = end;
+      continue;
+    }
+
+    const prefix = query.slice(i).match(FIELD_PREFIX);
+    if (prefix) {
+      const valueStart = i + prefix[0].length;
+      const { value, end } = query[valueStart] === '"'
+        ? readQuoted(query, valueStart)
+        : readBare(query, valueStart);
+      tokens.push({
+        kind: 'term',
+        position: i,
+        end,
+        field: prefix[1].toLowerCase(),
+        operator: prefix[2] as QueryOperator,
+        value
+      });
+      i = end;
+      continue;
+    }
+
+    const { value, end } = readBare(query, i);
+    if (value === 'AND' || value === 'OR' || value === 'NOT') {
+      tokens.push({ kind: value.toLowerCase() as 'and' | 'or' | 'not', position: i });
+    } else if (value.startsWith('#') && value.length > 1) {
+      tokens.push({ kind: 'term', position: i, end, field: 'tag', operator: ':', value: value.slice(1) });
+    } else {
+      tokens.push({ kind: 'term', position: i, end, field: null, operator: null, value });
+    }
+    i = end;
   }
 
-  // due:value (today, thisweek, overdue, none, or specific date)
-  const dueMatch = remaining.match(/\bdue:(\S+)/i);
-  if (dueMatch) {
-    const dueVal = dueMatch[1].toLowerCase();
-    if (dueVal === 'today') result.dueDateFilter = 'today';
-    else if (dueVal === 'thisweek') result.dueDateFilter = 'thisWeek';
-    else if (dueVal === 'overdue') result.dueDateFilter = 'overdue';
-    else if (dueVal === 'none') result.dueDateFilter = 'noDueDate';
-    else {
-      const parsed = parseNaturalDate(dueVal);
-      if (parsed) result.dueDate = parsed;
+  return tokens;
+}
+
+// ========================================
+// Parser
+// ========================================
+
+/**
+ * Parse a search query into an AST, or null for an empty query.
+ *
+ * Terms are ANDed unless joined by OR; NOT or a leading "-" negates, and
+ * parentheses group. Terms are free text, "quoted phrases", #tags,
+ * field:value, field comparisons (due<2026-11-01, priority>=medium,
+ * estimate>2h), has:field / no:field and is:done|open|overdue|today|recurring.
+ *
+ * @throws QueryParseError with a readable message when the query is invalid
+ */
+export function parseQuery(query: string): QueryNode | null {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return null;
+
+  let index = 0;
+  const peek = () => tokens[index];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const or = tokens[index++];
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or') {
+        throw new QueryParseError('OR needs a search term after it', or.position);
+      }
+      children.push(parseAnd());
     }
-    remaining = remaining.replace(dueMatch[0], '');
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'rparen') {
+      if (peek().kind === 'and') {
+        const and = tokens[index++];
+        if (!peek() || peek().kind === 'rparen' || peek().kind === 'or' || peek().kind === 'and') {
+          throw new QueryParseError('AND needs a search term after it', and.position);
+        }
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token?.kind === 'not') {
+      index++;
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or' || peek().kind === 'and') {
+        throw new QueryParseError('NOT needs a search term after it', token.position);
+      }
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[index++];
+
+    switch (token.kind) {
+      case 'lparen': {
+        if (peek()?.kind === 'rparen') {
+          throw new QueryParseError('Empty parentheses', token.position);
+        }
+        if (!peek()) {
+          throw new QueryParseError('Missing closing parenthesis', token.position);
+        }
+        const node = parseOr();
+        if (peek()?.kind !== 'rparen') {
+          throw new QueryParseError('Missing closing parenthesis', token.position);
+        }
+        index++;
+        return node;
+      }
+      case 'rparen':
+        throw new QueryParseError('Unexpected ")"', token.position);
+      case 'and':
+      case 'or':
+        throw new QueryParseError(`${token.kind.toUpperCase()} needs a search term before it`, token.position);
+      case 'not':
+        // parseUnary consumes NOT before we get here
+        throw new QueryParseError('NOT needs a search term after it', token.position);
+      case 'term':
+        return buildTermNode(token);
+    }
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    throw new QueryParseError('Unexpected ")"', tokens[index].position);
+  }
+  return node;
+}
+
+/**
+ * Turn a term token into a node, validating and normalising its value
+ */
+function buildTermNode(token: Extract<QueryToken, { kind: 'term' }>): QueryNode {
+  const { field: rawField, operator, value, position } = token;
+
+  if (rawField === null || operator === null) {
+    return { type: 'text', value };
   }
 
-  // file:value
-  const fileMatch = remaining.match(/\bfile:(\S+)/i);
-  if (fileMatch) {
-    result.filePath = fileMatch[1];
-    remaining = remaining.replace(fileMatch[0], '');
+  if (!value) {
+    throw new QueryParseError(`Missing value after "${rawField}${operator}"`, position);
+  }
+
+  // has:field / no:field
+  if (rawField === 'has' || rawField === 'no') {
+    const lower = value.toLowerCase();
+    const field = FIELD_ALIASES[lower] ?? lower as QueryField;
+    if (operator !== ':' || !PRESENCE_FIELDS.includes(field)) {
+      throw new QueryParseError(
+        `Unknown field "${value}" for ${rawField}:. Use one of: ${PRESENCE_FIELDS.join(', ')}`,
+        position
+      );
+    }
+    return { type: 'has', field, present: rawField === 'has' };
+  }
+
+  const field = FIELD_ALIASES[rawField] ?? rawField as QueryField;
+  const kind = FIELD_KINDS[field];
+  if (!kind) {
+    throw new QueryParseError(
+      `Unknown field "${rawField}". Put the term in quotes to search for the text "${rawField}${operator}${value}"`,
+      position
+    );
+  }
+
+  if (['<', '<=', '>', '>='].includes(operator) && !ORDERED_KINDS.includes(kind)) {
+    throw new QueryParseError(`"${operator}" can't be used with ${field}; use ":" or "!="`, position);
+  }
+
+  return { type: 'compare', field, operator, value: normalizeValue(field, kind, operator, value, position) };
+}
+
+function normalizeValue(
+  field: QueryField,
+  kind: FieldKind,
+  operator: QueryOperator,
+  value: string,
+  position: number
+): string {
+  const lower = value.toLowerCase();
+
+  switch (kind) {
+    case 'priority':
+      if (!PRIORITIES.includes(lower as Priority)) {
+        throw new QueryParseError(`Unknown priority "${value}". Use ${PRIORITIES.join(', ')}`, position);
+      }
+      return lower;
+
+    case 'date': {
+      if (DATE_KEYWORDS.includes(lower)) {
+        if (operator !== ':' && operator !== '=' && operator !== '!=') {
+          throw new QueryParseError(`"${field}${operator}${value}" needs a date, e.g. ${field}${operator}today`, position);
+        }
+        return lower;
+      }
+      const date = parseNaturalDate(value);
+      if (!date) {
+        throw new QueryParseError(`Invalid date "${value}" for ${field}`, position);
+      }
+      return date;
+    }
+
+    case 'duration': {
+      const minutes = parseDurationToMinutes(value);
+      if (minutes === null) {
+        throw new QueryParseError(`Invalid duration "${value}" for ${field}, e.g. 2h or 30m`, position);
+      }
+      return String(minutes);
+    }
+
+    case 'flag':
+      if (operator !== ':' || !QUERY_FLAGS.includes(lower)) {
+        throw new QueryParseError(`Unknown "is:${value}". Use one of: ${QUERY_FLAGS.join(', ')}`, position);
+      }
+      return lower;
+
+    case 'tag':
+      return lower.replace(/^#/, '');
+
+    default:
+      return value;
   }
+}
 
-  // tag: or #tag
-  const tags: string[] = [];
-  const tagOperator = remaining.matchAll(/\btag:(\S+)/gi);
-  for (const m of tagOperator) {
-    tags.push(m[1].toLowerCase());
-    remaining = remaining.replace(m[0], '');
+/**
+ * Replace the values of file: terms, e.g. after a rename. `replace` returns
+ * the new value or null to keep a term; the rest of the query is kept as
+ * written. Queries that don't parse are returned unchanged.
+ */
+export function replaceFileTerms(query: string, replace: (value: string) => string | null): string {
+  let tokens: QueryToken[];
+  try {
+    tokens = tokenize(query);
+  } catch (error) {
+    if (error instanceof QueryParseError) return query;
+    throw error;
   }
-  const hashTags = remaining.matchAll(/#([\w\-_]+)/g);
-  for (const m of hashTags) {
-    tags.push(m[1].toLowerCase());
-    remaining = remaining.replace(m[0], '');
+
+  let result = '';
+  let position = 0;
+  for (const token of tokens) {
+    if (token.kind !== 'term' || !token.field || !token.operator) continue;
+    if ((FIELD_ALIASES[token.field] ?? token.field) !== 'file') continue;
+
+    const value = replace(token.value);
+    if (value === null || value === token.value) continue;
+
+    const valueStart = token.position + token.field.length + token.operator.length;
+    const written = /[\s()"\\]/.test(value) ? `"${value.replace(/["\\]/g, '\\$&')}"` : value;
+    result += query.slice(position, valueStart) + written;
+    position = token.end;
   }
-  if (tags.length > 0) result.tags = tags;
 
-  // Remaining text is free-text search
-  const cleaned = remaining.replace(/\s+/g, ' ').trim();
-  if (cleaned) result.searchText = cleaned;
+  return result + query.slice(position);
+}
+
+// ========================================
+// Embedded Query Blocks
+// ========================================
+
+const BLOCK_DIRECTIVE = /(^|\s)(group|sort|limit):(\S*)/gi;
+
+const OPTION_ALIASES: Record<string, string> = {
+  due: 'dueDate',
+  duedate: 'dueDate'
+};
+
+/**
+ * Parse the body of a task query code block: a search query plus optional
+ * group:<field>, sort:<field> and limit:<n> directives anywhere in it.
+ *
+ * @throws QueryParseError with a readable message when the block is invalid
+ */
+export function parseTaskBlockQuery(source: string): TaskBlockQuery {
+  const result: TaskBlockQuery = { query: null, sortBy: null, groupBy: 'none', limit: null };
+  let query = source;
+
+  for (const match of source.matchAll(BLOCK_DIRECTIVE)) {
+    const [text, lead, rawName, value] = match;
+    const name = rawName.toLowerCase();
+    const position = (match.index ?? 0) + lead.length;
+    const option = OPTION_ALIASES[value.toLowerCase()] ?? value;
+
+    if (name === 'group') {
+      const groupBy = GROUP_OPTIONS.find(o => o.toLowerCase() === option.toLowerCase());
+      if (!groupBy) {
+        throw new QueryParseError(`Unknown group "${value}". Use one of: ${GROUP_OPTIONS.join(', ')}`, position);
+      }
+      result.groupBy = groupBy;
+    } else if (name === 'sort') {
+      const sortBy = SORT_OPTIONS.find(o => o.toLowerCase() === option.toLowerCase());
+      if (!sortBy) {
+        throw new QueryParseError(`Unknown sort "${value}". Use one of: ${SORT_OPTIONS.join(', ')}`, position);
+      }
+      result.sortBy = sortBy;
+    } else {
+      const limit = parseInt(value, 10);
+      if (!/^\d+$/.test(value) || limit <= 0) {
+        throw new QueryParseError(`Invalid limit "${value}", expected a positive number`, position);
+      }
+      result.limit = limit;
+    }
+
+    // Blank out the directive so query error positions still line up with the source
+    const start = match.index ?? 0;
+    query = query.slice(0, start) + ' '.repeat(text.length) + query.slice(start + text.length);
+  }
 
+  result.query = parseQuery(query);
   return result;
 }
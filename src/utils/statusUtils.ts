@@ -0,0 +1,59 @@
+import { TaskStatus } from '../types';
+import { DEFAULT_TASK_STATUSES } from '../types/constants';
+
+// ========================================
+// Task Status Lookup
+// ========================================
+
+/**
+ * Find the status for a checkbox symbol. Symbols missing from the
+ * registry are treated as open tasks that cycle to done.
+ */
+export function getTaskStatus(
+  symbol: string,
+  statuses: TaskStatus[] = DEFAULT_TASK_STATUSES
+): TaskStatus {
+  const status = statuses.find(s => s.symbol === symbol);
+  if (status) return status;
+
+  return {
+    symbol,
+    name: `Unknown [${symbol}]`,
+    isDone: false,
+    stage: null,
+    nextSymbol: getDoneStatus(statuses).symbol
+  };
+}
+
+/**
+ * Get the status a checkbox moves to when toggled
+ */
+export function getNextTaskStatus(
+  symbol: string,
+  statuses: TaskStatus[] = DEFAULT_TASK_STATUSES
+): TaskStatus {
+  const current = getTaskStatus(symbol, statuses);
+  const next = statuses.find(s => s.symbol === current.nextSymbol);
+  if (next && next.symbol !== symbol) return next;
+
+  // Broken or self-referencing cycle: flip between open and done
+  return current.isDone ? getTodoStatus(statuses) : getDoneStatus(statuses);
+}
+
+/**
+ * Status written when a task is marked done without a specific status
+ */
+export function getDoneStatus(statuses: TaskStatus[] = DEFAULT_TASK_STATUSES): TaskStatus {
+  return statuses.find(s => s.symbol === 'x') ??
+    statuses.find(s => s.isDone) ??
+    DEFAULT_TASK_STATUSES[1];
+}
+
+/**
+ * Status written when a task is reopened without a specific status
+ */
+export function getTodoStatus(statuses: TaskStatus[] = DEFAULT_TASK_STATUSES): TaskStatus {
+  return statuses.find(s => s.symbol === ' ') ??
+    statuses.find(s => !s.isDone) ??
+    DEFAULT_TASK_STATUSES[0];
+}
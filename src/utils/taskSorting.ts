@@ -0,0 +1,94 @@
+import { Task, SortOption, GroupOption, Priority } from '../types';
+import { STAGES } from '../types/constants';
+import { compareNullableStrings } from './textUtils';
+
+// ========================================
+// Task Sorting & Grouping
+// ========================================
+
+const PRIORITY_ORDER: Record<Priority, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Sort tasks by the given option; tasks missing the value sort last
+ */
+export function sortTasks(tasks: Task[], sortBy: SortOption): Task[] {
+  const sorted = [...tasks];
+
+  sorted.sort((a, b) => {
+    switch (sortBy) {
+      case 'dueDate':
+        return compareNullableStrings(a.dueDate, b.dueDate);
+
+      case 'owner':
+        if (!a.owner && !b.owner) return 0;
+        if (!a.owner) return 1;
+        if (!b.owner) return -1;
+        return a.owner.localeCompare(b.owner);
+
+      case 'priority': {
+        const aVal = a.priority ? PRIORITY_ORDER[a.priority] : 3;
+        const bVal = b.priority ? PRIORITY_ORDER[b.priority] : 3;
+        return aVal - bVal;
+      }
+
+      case 'project':
+        if (!a.project && !b.project) return 0;
+        if (!a.project) return 1;
+        if (!b.project) return -1;
+        return a.project.localeCompare(b.project);
+
+      case 'created':
+        return compareNullableStrings(a.createdDate, b.createdDate);
+
+      case 'stage': {
+        const stageOrder = STAGES.reduce((acc, s, i) => ({ ...acc, [s]: i }), {} as Record<string, number>);
+        const aIdx = a.stage ? stageOrder[a.stage] ?? 99 : 99;
+        const bIdx = b.stage ? stageOrder[b.stage] ?? 99 : 99;
+        return aIdx - bIdx;
+      }
+
+      default:
+        return 0;
+    }
+  });
+
+  return sorted;
+}
+
+/**
+ * Group tasks by the given option, keeping the input order within each group
+ */
+export function groupTasks(tasks: Task[], groupBy: GroupOption): Map<string, Task[]> {
+  const groups = new Map<string, Task[]>();
+
+  for (const task of tasks) {
+    let key: string;
+
+    switch (groupBy) {
+      case 'dueDate':
+        key = task.dueDate ?? 'No Date';
+        break;
+      case 'owner':
+        key = task.owner ?? 'No Owner';
+        break;
+      case 'project':
+        key = task.project ?? 'No Project';
+        break;
+      case 'stage':
+        key = task.stage ?? 'Unassigned';
+        break;
+      case 'priority':
+        key = task.priority ?? 'No Priority';
+        break;
+      default:
+        key = 'All';
+    }
+
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(task);
+  }
+
+  return groups;
+}
@@ -111,3 +111,59 @@ export function getSubtaskProgress(task: { children: { completed: boolean }[] })
   const completed = task.children.filter(c => c.completed).length;
   return { completed, total };
 }
+
+/**
+ * Similarity of two strings from 0 to 1 (Dice coefficient over character
+ * pairs), ignoring case and surrounding whitespace
+ */
+export function getTextSimilarity(a: string, b: string): number {
+  const left = a.trim().toLowerCase();
+  const right = b.trim().toLowerCase();
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const pair = left.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+  }
+
+  let shared = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const pair = right.slice(i, i + 2);
+    const count = pairs.get(pair) ?? 0;
+    if (count > 0) {
+      pairs.set(pair, count - 1);
+      shared++;
+    }
+  }
+
+  return (2 * shared) / (left.length + right.length - 2);
+}
+
+/**
+ * Create a random Obsidian block ID (the part after "^")
+ */
+export function createBlockId(): string {
+  return Math.random().toString(36).slice(2, 8).padEnd(6, '0');
+}
+
+/**
+ * Parse a duration like "2h", "1h30m", "45m" or "1.5" (hours) into minutes.
+ * Returns null if the string isn't a duration.
+ */
+export function parseDurationToMinutes(timeStr: string): number | null {
+  const hourMatch = timeStr.match(/(\d+(?:\.\d+)?)\s*h/i);
+  const minMatch = timeStr.match(/(\d+)\s*m/i);
+
+  if (hourMatch || minMatch) {
+    let minutes = 0;
+    if (hourMatch) minutes += Math.round(parseFloat(hourMatch[1]) * 60);
+    if (minMatch) minutes += parseInt(minMatch[1], 10);
+    return minutes;
+  }
+
+  // Plain number as hours
+  const num = parseFloat(timeStr);
+  return isNaN(num) ? null : Math.round(num * 60);
+}
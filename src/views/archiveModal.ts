@@ -0,0 +1,88 @@
+import { App, Modal, ButtonComponent, Notice } from 'obsidian';
+import type TaskConsolidatorPlugin from '../main';
+import { ArchivePlanItem } from '../core/archiveService';
+
+/**
+ * ArchiveModal - Dry run of the archive rules: lists the completed tasks
+ * that would move and where, and archives them on confirmation.
+ */
+export class ArchiveModal extends Modal {
+  private plugin: TaskConsolidatorPlugin;
+  private plan: ArchivePlanItem[] = [];
+
+  constructor(app: App, plugin: TaskConsolidatorPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass('archive-modal');
+    this.plan = this.plugin.archiveService.getArchivePlan();
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: 'Archive Completed Tasks' });
+
+    if (this.plugin.settings.archiveRules.every(rule => !rule.enabled)) {
+      contentEl.createEl('p', { text: 'No archive rules are enabled. Add one in the plugin settings.' });
+      contentEl.createEl('button', { text: 'Close' }).addEventListener('click', () => this.close());
+      return;
+    }
+
+    if (this.plan.length === 0) {
+      contentEl.createEl('p', { text: 'No completed tasks are due for archiving.' });
+      contentEl.createEl('button', { text: 'Close' }).addEventListener('click', () => this.close());
+      return;
+    }
+
+    contentEl.createEl('p', {
+      text: `${this.plan.length} completed ${this.plan.length === 1 ? 'task' : 'tasks'} will move, with their subtasks:`,
+      cls: 'setting-item-description'
+    });
+
+    const groups = new Map<string, ArchivePlanItem[]>();
+    for (const item of this.plan) {
+      const destination = [item.targetPath.replace(/\.md$/, ''), ...item.headings.map(h => h.text)].join(' › ');
+      groups.set(destination, [...(groups.get(destination) ?? []), item]);
+    }
+
+    const list = contentEl.createDiv({ cls: 'archive-preview' });
+    for (const [destination, items] of groups) {
+      list.createEl('h4', { text: destination });
+      const ul = list.createEl('ul');
+      for (const item of items) {
+        const li = ul.createEl('li');
+        li.createSpan({ text: item.task.text });
+        li.createSpan({
+          text: ` — ${item.task.file.basename}, completed ${item.task.completedDate}`,
+          cls: 'archive-preview-meta'
+        });
+      }
+    }
+
+    const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+    new ButtonComponent(buttonContainer)
+      .setButtonText('Cancel')
+      .onClick(() => this.close());
+    new ButtonComponent(buttonContainer)
+      .setButtonText(`Archive ${this.plan.length} ${this.plan.length === 1 ? 'task' : 'tasks'}`)
+      .setCta()
+      .onClick(async () => {
+        this.close();
+        const result = await this.plugin.archiveService.archive(this.plan);
+        if (result.failed > 0) {
+          new Notice(`Archived ${result.successful} tasks, ${result.failed} failed: ${result.errors[0]}`);
+        } else {
+          new Notice(`Archived ${result.successful} tasks. Undo from the task history.`);
+        }
+      });
+  }
+}
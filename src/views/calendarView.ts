@@ -16,6 +16,7 @@ import {
 } from '../utils/dateUtils';
 import { getRelativeDateString } from '../utils/dateUtils';
 import { openTaskInEditor } from '../utils/editorUtils';
+import { getOccurrences } from '../utils/recurrenceUtils';
 
 // ========================================
 // Calendar View Types
@@ -36,12 +37,14 @@ interface CalendarWeek {
   days: CalendarDay[];
 }
 
+// Upper bound on projected occurrences per series
+const MAX_VIRTUAL_OCCURRENCES = 1000;
+
 // ========================================
 // Calendar Modal
 // ========================================
 
 export class CalendarModal extends Modal {
-  private plugin: TaskConsolidatorPlugin;
   private taskCache: TaskCache;
   private taskUpdater: TaskUpdater;
   private settings: TaskConsolidatorSettings;
@@ -51,10 +54,12 @@ export class CalendarModal extends Modal {
   private selectedDate: string | null = null;
   private draggedTask: Task | null = null;
   private taskDateMap: Map<string, Task[]> = new Map();
+  /** Projected future occurrences of recurring tasks, mapped to the task they repeat */
+  private virtualSources: Map<Task, Task> = new Map();
+  private unsubscribe: (() => void) | null = null;
 
   constructor(app: App, plugin: TaskConsolidatorPlugin) {
     super(app);
-    this.plugin = plugin;
     this.taskCache = plugin.taskCache;
     this.taskUpdater = plugin.taskUpdater;
     this.settings = plugin.settings;
@@ -68,9 +73,14 @@ export class CalendarModal extends Modal {
     contentEl.addClass('calendar-modal-content');
 
     this.render();
+
+    // Stay in sync with edits made in notes while the calendar is open
+    this.unsubscribe = this.taskCache.subscribe(() => this.render(), this.settings.refreshDebounceMs);
   }
 
   onClose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
     this.contentEl.empty();
   }
 
@@ -83,6 +93,66 @@ export class CalendarModal extends Modal {
         else this.taskDateMap.set(task.dueDate, [task]);
       }
     }
+    this.addVirtualOccurrences();
+  }
+
+  /**
+   * Project the future occurrences of open recurring series into the
+   * visible range as read-only copies of the latest instance
+   */
+  private addVirtualOccurrences(): void {
+    this.virtualSources.clear();
+    const [rangeStart, rangeEnd] = this.getVisibleRange();
+
+    for (const source of this.taskCache.getSeriesHeads()) {
+      const recurrence = source.recurrence!;
+      // "When done" series have no next date until the current one is completed
+      if (recurrence.whenDone || source.dueDate! >= rangeEnd) continue;
+
+      // Stop at the range end, or later for occurrences moved into the range
+      const lastMovedFrom = (recurrence.movedDates ?? []).reduce((last, m) => m.from > last ? m.from : last, '');
+      const until = lastMovedFrom > rangeEnd ? lastMovedFrom : rangeEnd;
+      const endDate = recurrence.endDate && recurrence.endDate < until ? recurrence.endDate : until;
+
+      const dates = getOccurrences({ ...recurrence, endDate }, source.dueDate, MAX_VIRTUAL_OCCURRENCES, {
+        holidays: this.settings.holidays
+      });
+      for (const date of dates) {
+        if (date < rangeStart || date > rangeEnd) continue;
+
+        const occurrence: Task = { ...source, id: `${source.id}@${date}`, dueDate: date };
+        this.virtualSources.set(occurrence, source);
+        const existing = this.taskDateMap.get(date);
+        if (existing) existing.push(occurrence);
+        else this.taskDateMap.set(date, [occurrence]);
+      }
+    }
+  }
+
+  /**
+   * First and last ISO date shown by the current view
+   */
+  private getVisibleRange(): [string, string] {
+    let start: Date;
+    let end: Date;
+    switch (this.viewMode) {
+      case 'month':
+        start = getStartOfWeek(new Date(this.currentDate.getFullYear(), this.currentDate.getMonth(), 1), this.settings.firstDayOfWeek);
+        end = addDays(start, 6 * 7 - 1);
+        break;
+      case 'week':
+        start = getStartOfWeek(this.currentDate, this.settings.firstDayOfWeek);
+        end = addDays(start, 6);
+        break;
+      default:
+        start = end = this.currentDate;
+    }
+
+    const range: [string, string] = [formatDateToISO(start), formatDateToISO(end)];
+    // The selected date panel may show a day outside the grid
+    if (this.selectedDate && this.selectedDate < range[0]) range[0] = this.selectedDate;
+    if (this.selectedDate && this.selectedDate > range[1]) range[1] = this.selectedDate;
+    return range;
   }
 
   private render(): void {
@@ -295,6 +365,11 @@ export class CalendarModal extends Modal {
         if (isOverdue(task.dueDate) && !task.completed) {
           dot.addClass('overdue');
         }
+        if (this.virtualSources.has(task)) {
+          dot.addClass('virtual-occurrence');
+        } else if (this.taskCache.isUpcomingOccurrence(task)) {
+          dot.addClass('upcoming-occurrence');
+        }
       }
 
       if (day.tasks.length > 3) {
@@ -444,6 +519,14 @@ export class CalendarModal extends Modal {
     if (task.completed) {
       card.addClass('completed');
     }
+    const source = this.virtualSources.get(task);
+    if (source) {
+      card.addClass('virtual-occurrence');
+    }
+    const upcoming = !source && this.taskCache.isUpcomingOccurrence(task);
+    if (upcoming) {
+      card.addClass('upcoming-occurrence');
+    }
 
     // Title
     const title = card.createDiv({ cls: 'calendar-task-title' });
@@ -451,6 +534,28 @@ export class CalendarModal extends Modal {
       title.createSpan({ text: PRIORITY_ICONS[task.priority] + ' ' });
     }
     title.createSpan({ text: task.text });
+    if (upcoming) {
+      title.createSpan({
+        text: ' 🔄',
+        cls: 'calendar-task-upcoming',
+        attr: { title: 'Upcoming occurrence of a recurring task' }
+      });
+    }
+    if (source) {
+      title.createSpan({
+        text: ' 🔁',
+        cls: 'calendar-task-virtual',
+        attr: { title: 'Future occurrence of a recurring task; drag to reschedule it' }
+      });
+      card.createEl('button', {
+        text: 'Skip',
+        cls: 'calendar-skip-occurrence',
+        attr: { 'aria-label': `Skip the ${task.dueDate} occurrence of ${task.text}` }
+      }).addEventListener('click', async (e) => {
+        e.stopPropagation();
+        await this.skipOccurrence(source, task.dueDate!);
+      });
+    }
 
     // Detailed view shows more info
     if (detailed) {
@@ -488,12 +593,21 @@ export class CalendarModal extends Modal {
       card.removeClass('dragging');
     });
 
-    // Click to open
+    // Click to open; projected occurrences open the task they repeat
     card.addEventListener('click', () => {
-      this.openTask(task);
+      this.openTask(source ?? task);
     });
   }
 
+  private async skipOccurrence(source: Task, date: string): Promise<void> {
+    const result = await this.taskUpdater.skipRecurringOccurrence(source, date);
+    if (result.success) {
+      new Notice(`Skipped the ${getRelativeDateString(date)} occurrence`);
+    } else {
+      new Notice(`Error: ${result.error}`);
+    }
+  }
+
   // ========================================
   // Selected Date Tasks Panel
   // ========================================
@@ -568,15 +682,21 @@ export class CalendarModal extends Modal {
 
       if (!this.draggedTask) return;
 
-      // Update task due date
-      const result = await this.taskUpdater.updateTask(this.draggedTask, {
-        dueDate: dateStr
-      });
+      const source = this.virtualSources.get(this.draggedTask);
+      if (source && this.draggedTask.dueDate === dateStr) return;
+      if (source && dateStr <= source.dueDate!) {
+        new Notice('An occurrence can only move to a date after the current one');
+        return;
+      }
+
+      // Projected occurrences store the new date as an exception on the
+      // recurring task; real tasks get a new due date
+      const result = source
+        ? await this.taskUpdater.rescheduleRecurringOccurrence(source, this.draggedTask.dueDate!, dateStr)
+        : await this.taskUpdater.updateTask(this.draggedTask, { dueDate: dateStr });
 
       if (result.success) {
-        new Notice(`Task rescheduled to ${getRelativeDateString(dateStr)}`);
-        await this.plugin.refreshTasks();
-        this.render();
+        new Notice(`${source ? 'Occurrence' : 'Task'} rescheduled to ${getRelativeDateString(dateStr)}`);
       } else {
         new Notice(`Error: ${result.error}`);
       }
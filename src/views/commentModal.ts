@@ -64,6 +64,8 @@ export class CommentModal extends Modal {
           new Notice('Comment cannot be empty');
           return;
         }
+        // Comments are keyed by a stable block ID so they survive line shifts
+        this.task = await this.plugin.ensureStableTaskId(this.task);
         await this.plugin.commentService?.addComment(this.task.id, newText.trim());
         this.render();
       });
@@ -0,0 +1,43 @@
+import { App, FuzzySuggestModal, Notice } from 'obsidian';
+import type TaskConsolidatorPlugin from '../main';
+import { Task } from '../types';
+
+// ========================================
+// Dependency Suggest Modal
+// ========================================
+
+/**
+ * Pick a task that blocks the given task
+ */
+export class DependencySuggestModal extends FuzzySuggestModal<Task> {
+  private plugin: TaskConsolidatorPlugin;
+  private task: Task;
+
+  constructor(app: App, plugin: TaskConsolidatorPlugin, task: Task) {
+    super(app);
+    this.plugin = plugin;
+    this.task = task;
+    this.setPlaceholder('Select the task that blocks this one...');
+  }
+
+  getItems(): Task[] {
+    // Subtasks can block too: block IDs reference them like any task
+    return this.plugin.taskCache
+      .getAllTasksWithSubtasks()
+      .filter(t => !t.completed && t.id !== this.task.id);
+  }
+
+  getItemText(task: Task): string {
+    return `${task.text} (${task.file.basename})`;
+  }
+
+  async onChooseItem(blocker: Task): Promise<void> {
+    const result = await this.plugin.addTaskDependency(this.task, blocker);
+
+    if (result.success) {
+      new Notice('Dependency added');
+    } else {
+      new Notice(`Error: ${result.error}`);
+    }
+  }
+}
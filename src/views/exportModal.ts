@@ -1,6 +1,7 @@
 import { Modal, App, Setting, Notice } from 'obsidian';
 import type TaskConsolidatorPlugin from '../main';
 import { Task } from '../types';
+import { getViewFilter } from '../core/taskFilter';
 
 type ExportFormat = 'csv' | 'json' | 'ical';
 
@@ -44,7 +45,7 @@ export class ExportModal extends Modal {
 
     new Setting(contentEl)
       .setName('Export filtered tasks only')
-      .setDesc('Only export tasks matching current filters')
+      .setDesc('Only export tasks matching the current search and filters in the task panel')
       .addToggle(toggle => {
         toggle.setValue(this.filteredOnly);
         toggle.onChange(v => this.filteredOnly = v);
@@ -59,11 +60,7 @@ export class ExportModal extends Modal {
 
   private doExport(): void {
     const tasks = this.filteredOnly
-      ? this.plugin.taskCache.getFilteredTasks({
-          owner: this.plugin.settings.filterOwner || undefined,
-          project: this.plugin.settings.filterProject || undefined,
-          stage: this.plugin.settings.filterStage || undefined,
-        })
+      ? this.plugin.taskCache.getFilteredTasks(getViewFilter(this.plugin.settings).options)
       : this.plugin.taskCache.getAllTasks();
 
     let content: string;
@@ -121,8 +118,11 @@ export class ExportModal extends Modal {
   private toJSON(tasks: Task[]): string {
     const serializable = tasks.map(t => ({
       text: t.text,
+      status: t.status,
       completed: t.completed,
       dueDate: t.dueDate,
+      scheduledDate: t.scheduledDate,
+      startDate: t.startDate,
       owner: t.owner,
       project: t.project,
       stage: t.stage,
@@ -0,0 +1,176 @@
+import { ItemView, WorkspaceLeaf, ButtonComponent, Notice } from 'obsidian';
+import { TASK_HEALTH_VIEW_TYPE } from '../types/constants';
+import { TaskProblem, TaskProblemKind } from '../core/taskDoctor';
+import { openTaskInEditor } from '../utils/editorUtils';
+import type TaskConsolidatorPlugin from '../main';
+
+// ========================================
+// Task Health View
+// ========================================
+
+const PROBLEM_TITLES: Record<TaskProblemKind, string> = {
+  'invalid-date': 'Invalid dates',
+  'unknown-stage': 'Unknown stages',
+  'rejected-owner': 'Rejected owners',
+  'unresolved-dependency': 'Unresolved dependencies',
+  'dependency-cycle': 'Dependency cycles'
+};
+
+/**
+ * Report of malformed tasks, grouped by problem, with a fix button for
+ * each problem and for each group. Checks again when files are reindexed.
+ */
+export class TaskHealthView extends ItemView {
+  private plugin: TaskConsolidatorPlugin;
+  private problems: TaskProblem[] = [];
+  private busy = false;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: TaskConsolidatorPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return TASK_HEALTH_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'Task Health';
+  }
+
+  getIcon(): string {
+    return 'stethoscope';
+  }
+
+  async onOpen(): Promise<void> {
+    this.containerEl.addClass('task-health-view');
+    this.check();
+    this.unsubscribe = this.plugin.taskCache.subscribe(() => {
+      if (!this.busy) this.check();
+    }, 1000);
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Check all tasks again and re-render
+   */
+  check(): void {
+    this.problems = this.plugin.taskDoctor.check();
+    this.render();
+  }
+
+  private render(): void {
+    const container = this.contentEl;
+    container.empty();
+
+    const fixable = this.problems.filter(p => p.fix);
+
+    const toolbar = container.createDiv({ cls: 'task-health-toolbar' });
+    new ButtonComponent(toolbar)
+      .setButtonText('Check again')
+      .setDisabled(this.busy)
+      .onClick(() => this.check());
+    new ButtonComponent(toolbar)
+      .setButtonText(`Fix all (${fixable.length})`)
+      .setCta()
+      .setDisabled(this.busy || fixable.length === 0)
+      .onClick(() => this.runFixAll(fixable));
+
+    if (this.problems.length === 0) {
+      container.createEl('p', { text: 'No problems found.', cls: 'task-health-empty' });
+      return;
+    }
+
+    const taskCount = new Set(this.problems.map(p => p.task.id)).size;
+    container.createEl('p', {
+      text: `${this.problems.length} ${this.problems.length === 1 ? 'problem' : 'problems'} in ${taskCount} ${taskCount === 1 ? 'task' : 'tasks'}`,
+      cls: 'task-health-summary'
+    });
+
+    const groups = new Map<TaskProblemKind, TaskProblem[]>();
+    for (const problem of this.problems) {
+      groups.set(problem.kind, [...(groups.get(problem.kind) ?? []), problem]);
+    }
+
+    for (const [kind, problems] of groups) {
+      const section = container.createDiv({ cls: 'task-health-group' });
+      const header = section.createDiv({ cls: 'task-health-group-header' });
+      header.createEl('h4', { text: `${PROBLEM_TITLES[kind]} (${problems.length})` });
+
+      const groupFixable = problems.filter(p => p.fix);
+      if (groupFixable.length > 0) {
+        new ButtonComponent(header)
+          .setButtonText('Fix all')
+          .setDisabled(this.busy)
+          .onClick(() => this.runFixAll(groupFixable));
+      }
+
+      for (const problem of problems) {
+        this.renderProblem(section, problem);
+      }
+    }
+  }
+
+  private renderProblem(section: HTMLElement, problem: TaskProblem): void {
+    const item = section.createDiv({ cls: 'task-health-problem' });
+    const details = item.createDiv({ cls: 'task-health-details' });
+
+    const location = details.createEl('a', {
+      text: `${problem.task.file.path}:${problem.task.lineNumber + 1}`,
+      cls: 'task-health-location',
+      href: '#'
+    });
+    location.addEventListener('click', (e) => {
+      e.preventDefault();
+      void openTaskInEditor(this.app, problem.task);
+    });
+
+    details.createDiv({ cls: 'task-health-task', text: problem.task.text || problem.task.rawLine.trim() });
+    details.createDiv({ cls: 'task-health-message', text: problem.message });
+
+    if (problem.fix) {
+      new ButtonComponent(item)
+        .setButtonText(problem.fix.label)
+        .setDisabled(this.busy)
+        .onClick(() => this.run(async () => {
+          const result = await this.plugin.taskDoctor.fix(problem);
+          if (!result.success && result.error) {
+            new Notice(`Error: ${result.error}`);
+          }
+        }));
+    }
+  }
+
+  private runFixAll(problems: TaskProblem[]): Promise<void> {
+    return this.run(async () => {
+      const result = await this.plugin.taskDoctor.fixAll(problems);
+      if (result.failed > 0) {
+        new Notice(`Fixed ${result.successful} problems, ${result.failed} failed: ${result.errors[0]}`);
+      } else {
+        new Notice(`Fixed ${result.successful} problems. Undo from the task history.`);
+      }
+    });
+  }
+
+  /**
+   * Run one fix at a time, then check again. Fixed files are reindexed on
+   * their own and trigger another check once they are.
+   */
+  private async run(action: () => Promise<void>): Promise<void> {
+    if (this.busy) return;
+
+    this.busy = true;
+    this.render();
+    try {
+      await action();
+    } finally {
+      this.busy = false;
+      this.check();
+    }
+  }
+}
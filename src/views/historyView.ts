@@ -0,0 +1,130 @@
+import { ItemView, WorkspaceLeaf, ButtonComponent, Notice } from 'obsidian';
+import { TaskUpdateResult, UndoEntry } from '../types';
+import { TASK_HISTORY_VIEW_TYPE } from '../types/constants';
+import { TaskUpdater } from '../core/taskUpdater';
+import type TaskConsolidatorPlugin from '../main';
+
+// ========================================
+// Task History View
+// ========================================
+
+/**
+ * Lists recent task operations with their times. Undone operations are
+ * shown above the rest and can be redone; clicking an entry undoes or
+ * redoes everything up to it.
+ */
+export class TaskHistoryView extends ItemView {
+  private taskUpdater: TaskUpdater;
+  private busy = false;
+
+  constructor(leaf: WorkspaceLeaf, plugin: TaskConsolidatorPlugin) {
+    super(leaf);
+    this.taskUpdater = plugin.taskUpdater;
+  }
+
+  getViewType(): string {
+    return TASK_HISTORY_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'Task History';
+  }
+
+  getIcon(): string {
+    return 'history';
+  }
+
+  async onOpen(): Promise<void> {
+    this.containerEl.addClass('task-history-view');
+    this.render();
+    this.registerEvent(this.taskUpdater.on('history-changed', () => this.render()));
+  }
+
+  private render(): void {
+    const container = this.contentEl;
+    container.empty();
+
+    const history = this.taskUpdater.getHistory();
+
+    const toolbar = container.createDiv({ cls: 'task-history-toolbar' });
+    new ButtonComponent(toolbar)
+      .setButtonText('Undo')
+      .setDisabled(this.busy || history.undo.length === 0)
+      .onClick(() => this.run(() => this.taskUpdater.undo()));
+    new ButtonComponent(toolbar)
+      .setButtonText('Redo')
+      .setDisabled(this.busy || history.redo.length === 0)
+      .onClick(() => this.run(() => this.taskUpdater.redo()));
+    new ButtonComponent(toolbar)
+      .setButtonText('Clear')
+      .setDisabled(this.busy || (history.undo.length === 0 && history.redo.length === 0))
+      .onClick(() => this.taskUpdater.clearUndoStack());
+
+    if (history.undo.length === 0 && history.redo.length === 0) {
+      container.createEl('p', { text: 'No task changes yet.', cls: 'task-history-empty' });
+      return;
+    }
+
+    const list = container.createDiv({ cls: 'task-history-list' });
+
+    // Undone operations sit above the current state, oldest undone nearest to it
+    for (const entry of [...history.redo].reverse()) {
+      this.renderEntry(list, entry, true);
+    }
+    for (const entry of history.undo) {
+      this.renderEntry(list, entry, false);
+    }
+  }
+
+  private renderEntry(list: HTMLElement, entry: UndoEntry, undone: boolean): void {
+    const item = list.createDiv({
+      cls: `task-history-entry${undone ? ' is-undone' : ''}`,
+      attr: {
+        'aria-label': undone ? 'Redo up to here' : 'Undo up to here',
+        role: 'button',
+        tabindex: '0'
+      }
+    });
+
+    item.createDiv({ cls: 'task-history-label', text: entry.label });
+
+    const files = new Set(entry.changes.map(change => change.filePath));
+    const lineCount = entry.changes.length;
+    const meta = item.createDiv({ cls: 'task-history-meta' });
+    meta.createSpan({ text: new Date(entry.timestamp).toLocaleString() });
+    meta.createSpan({
+      text: `${lineCount} ${lineCount === 1 ? 'line' : 'lines'} in ${
+        files.size === 1 ? [...files][0] : `${files.size} files`}`
+    });
+
+    const activate = () => this.run(() =>
+      undone ? this.taskUpdater.redoTo(entry.id) : this.taskUpdater.undoTo(entry.id)
+    );
+    item.addEventListener('click', activate);
+    item.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        activate();
+      }
+    });
+  }
+
+  /**
+   * Run one history action at a time and report its failure
+   */
+  private async run(action: () => Promise<TaskUpdateResult>): Promise<void> {
+    if (this.busy) return;
+
+    this.busy = true;
+    this.render();
+    try {
+      const result = await action();
+      if (!result.success && result.error) {
+        new Notice(result.error);
+      }
+    } finally {
+      this.busy = false;
+      this.render();
+    }
+  }
+}
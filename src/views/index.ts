@@ -1,4 +1,6 @@
 export * from './panelView';
+export * from './historyView';
+export * from './healthView';
 export * from './kanbanModal';
 export * from './quickAddModal';
 export * from './calendarView';
@@ -6,3 +8,4 @@ export * from './keyboardNav';
 export * from './keyboardHelpModal';
 export * from './projectDashboard';
 export * from './taskAgentModal';
+export * from './taskQueryBlock';
@@ -2,11 +2,13 @@ import { Modal, App, Notice } from 'obsidian';
 import type TaskConsolidatorPlugin from '../main';
 import { TaskCache } from '../core/taskCache';
 import { TaskUpdater } from '../core/taskUpdater';
+import { getViewFilter, hasViewFilter } from '../core/taskFilter';
 import { Task, TaskConsolidatorSettings, Stage, KanbanColumn } from '../types';
 import { KANBAN_COLUMNS, PRIORITY_ICONS } from '../types/constants';
 import { isOverdue, getRelativeDateString } from '../utils/dateUtils';
 import { compareNullableStrings } from '../utils/textUtils';
 import { openTaskInEditor } from '../utils/editorUtils';
+import { getTaskStatus, getDoneStatus, getTodoStatus } from '../utils/statusUtils';
 
 // ========================================
 // Kanban Modal
@@ -18,6 +20,7 @@ export class KanbanModal extends Modal {
   private taskUpdater: TaskUpdater;
   private settings: TaskConsolidatorSettings;
   private filteredProject: string;
+  private unsubscribe: (() => void) | null = null;
 
   constructor(app: App, plugin: TaskConsolidatorPlugin) {
     super(app);
@@ -36,9 +39,14 @@ export class KanbanModal extends Modal {
 
     this.renderHeader(contentEl);
     this.renderBoard(contentEl);
+
+    // Stay in sync with edits made in notes while the board is open
+    this.unsubscribe = this.taskCache.subscribe(() => this.refreshBoard(), this.settings.refreshDebounceMs);
   }
 
   onClose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
     const { contentEl } = this;
     contentEl.empty();
   }
@@ -80,17 +88,18 @@ export class KanbanModal extends Modal {
     if (existing) existing.remove();
 
     const board = container.createDiv({ cls: 'kanban-board' });
+    const tasks = this.getBoardTasks();
 
     for (const column of KANBAN_COLUMNS) {
-      this.renderColumn(board, column);
+      this.renderColumn(board, column, tasks);
     }
   }
 
-  private renderColumn(board: HTMLElement, column: KanbanColumn): void {
+  private renderColumn(board: HTMLElement, column: KanbanColumn, boardTasks: Task[]): void {
     const columnEl = board.createDiv({ cls: 'kanban-column' });
     columnEl.dataset.stage = column.stage ?? 'unassigned';
 
-    const tasks = this.getTasksForColumn(column);
+    const tasks = this.getTasksForColumn(column, boardTasks);
 
     const header = columnEl.createDiv({ cls: 'kanban-column-header' });
     header.createEl('h3', { text: `${column.title} (${tasks.length})` });
@@ -103,16 +112,21 @@ export class KanbanModal extends Modal {
     }
   }
 
-  private getTasksForColumn(column: KanbanColumn): Task[] {
-    let tasks = this.taskCache.getAllTasks();
-
-    // Filter by project
-    if (this.filteredProject) {
-      tasks = tasks.filter(t => t.project === this.filteredProject);
-    }
+  /**
+   * Tasks matching the panel's filters; the board's own project picker wins over the panel's
+   */
+  private getBoardTasks(): Task[] {
+    const { options } = getViewFilter(this.settings);
+    return this.taskCache.getFilteredTasks({
+      ...options,
+      project: this.filteredProject || options.project
+    });
+  }
 
+  private getTasksForColumn(column: KanbanColumn, tasks: Task[]): Task[] {
     let filtered: Task[];
 
+    // task.stage already includes the stage implied by the checkbox status
     if (column.stage === null) {
       // Unassigned: no stage and not completed
       filtered = tasks.filter(t => !t.stage && !t.completed);
@@ -159,6 +173,16 @@ export class KanbanModal extends Modal {
     // Metadata
     const meta = card.createDiv({ cls: 'kanban-card-meta' });
 
+    const statuses = this.settings.taskStatuses;
+    const status = getTaskStatus(task.status, statuses);
+    if (status.symbol !== getTodoStatus(statuses).symbol && status.symbol !== getDoneStatus(statuses).symbol) {
+      meta.createSpan({
+        cls: 'kanban-card-status',
+        text: `[${status.symbol}] ${status.name}`,
+        attr: { 'aria-label': `Status: ${status.name}` }
+      });
+    }
+
     if (task.priority) {
       meta.createSpan({
         cls: 'kanban-card-priority',
@@ -298,8 +322,6 @@ export class KanbanModal extends Modal {
 
         if (result.success) {
           new Notice(`Task moved to ${stage ?? 'Unassigned'}`);
-          await this.plugin.refreshTasks();
-          this.refreshBoard();
         } else {
           new Notice(`Error: ${result.error}`);
         }
@@ -314,8 +336,6 @@ export class KanbanModal extends Modal {
     const result = await this.taskUpdater.updateTaskStage(task, stage);
     if (result.success) {
       new Notice(`Task moved to ${stage ?? 'Unassigned'}`);
-      await this.plugin.refreshTasks();
-      this.refreshBoard();
     } else {
       new Notice(`Error: ${result.error}`);
     }
@@ -0,0 +1,57 @@
+import { App, FuzzySuggestModal, Notice } from 'obsidian';
+import type TaskConsolidatorPlugin from '../main';
+import { Task, TaskMoveTarget } from '../types';
+
+// ========================================
+// Move Task Modal
+// ========================================
+
+/**
+ * Pick a file, or a heading in a file, to move a task and its subtasks to
+ */
+export class MoveTaskModal extends FuzzySuggestModal<TaskMoveTarget> {
+  private plugin: TaskConsolidatorPlugin;
+  private task: Task;
+
+  constructor(app: App, plugin: TaskConsolidatorPlugin, task: Task) {
+    super(app);
+    this.plugin = plugin;
+    this.task = task;
+    this.setPlaceholder('Move task to file or heading...');
+  }
+
+  getItems(): TaskMoveTarget[] {
+    const files = this.app.vault.getMarkdownFiles().sort((a, b) => a.path.localeCompare(b.path));
+    const targets: TaskMoveTarget[] = [];
+
+    for (const file of files) {
+      targets.push({ file, heading: null });
+      for (const heading of this.app.metadataCache.getFileCache(file)?.headings ?? []) {
+        targets.push({ file, heading: { text: heading.heading, level: heading.level } });
+      }
+    }
+
+    return targets;
+  }
+
+  getItemText(target: TaskMoveTarget): string {
+    const path = target.file.path.replace(/\.md$/, '');
+    return target.heading
+      ? `${path} › ${'#'.repeat(target.heading.level)} ${target.heading.text}`
+      : path;
+  }
+
+  async onChooseItem(target: TaskMoveTarget): Promise<void> {
+    const result = await this.plugin.taskUpdater.moveTask(
+      this.task,
+      target,
+      this.plugin.taskCache.getAllTasksWithSubtasks()
+    );
+
+    if (result.success) {
+      new Notice(`Task moved to ${this.getItemText(target)}`);
+    } else {
+      new Notice(`Error: ${result.error}`);
+    }
+  }
+}
@@ -1,20 +1,22 @@
-import { ItemView, WorkspaceLeaf, Notice } from 'obsidian';
+import { ItemView, WorkspaceLeaf, Notice, Menu } from 'obsidian';
 import type TaskConsolidatorPlugin from '../main';
 import { TaskCache } from '../core/taskCache';
 import { TaskUpdater } from '../core/taskUpdater';
-import { Task, SortOption, GroupOption, Priority } from '../types';
+import { getViewFilter } from '../core/taskFilter';
+import { Task, SortOption, GroupOption, IndexProgress } from '../types';
 import { TASK_VIEW_TYPE, SORT_OPTIONS, GROUP_OPTIONS, STAGES, KEYS, PRIORITY_ICONS, GROUP_ICONS } from '../types/constants';
 import { isOverdue, isDueToday, getRelativeDateString } from '../utils/dateUtils';
-import { compareNullableStrings } from '../utils/textUtils';
 import { formatLabel } from '../utils/textUtils';
 import { getSubtaskProgress } from '../utils/textUtils';
 import { getDependencyStatus, createShortTaskId, buildShortIdMap } from '../utils/dependencyUtils';
+import { getTaskStatus, getDoneStatus, getTodoStatus } from '../utils/statusUtils';
 import { openTaskInEditor } from '../utils/editorUtils';
-import { parseSearchQuery } from '../utils/searchParser';
+import { sortTasks, groupTasks } from '../utils/taskSorting';
 import { KeyboardNavigationHandler, announceToScreenReader } from './keyboardNav';
 import { KeyboardHelpModal } from './keyboardHelpModal';
 import { ExportModal } from './exportModal';
 import { CommentModal } from './commentModal';
+import { MoveTaskModal } from './moveTaskModal';
 
 // ========================================
 // Panel View
@@ -31,7 +33,10 @@ export class TaskPanelView extends ItemView {
   private taskListContainer: HTMLElement | null = null;
   private taskSectionContainer: HTMLElement | null = null;
   private liveRegion: HTMLElement | null = null;
+  private queryErrorEl: HTMLElement | null = null;
+  private indexProgressEl: HTMLElement | null = null;
   private headerRendered = false;
+  private unsubscribe: (() => void) | null = null;
 
   constructor(leaf: WorkspaceLeaf, plugin: TaskConsolidatorPlugin) {
     super(leaf);
@@ -68,9 +73,14 @@ export class TaskPanelView extends ItemView {
 
     this.setupGlobalKeyboardShortcuts();
     await this.render();
+
+    this.unsubscribe = this.taskCache.subscribe(() => this.refresh(), this.plugin.settings.refreshDebounceMs);
+    this.registerEvent(this.taskCache.on('index-progress', (progress) => this.updateIndexProgress(progress)));
   }
 
   async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
     this.selectedTasks.clear();
     if (this.keyboardHandler) {
       this.keyboardHandler.destroy();
@@ -166,13 +176,37 @@ export class TaskPanelView extends ItemView {
     titleRow.createEl('h4', { text: 'All Tasks' });
 
     const stats = this.taskCache.getTaskStats();
-    titleRow.createSpan({ cls: 'task-header-stats' })
-      .setText(`${stats.active} active, ${stats.completed} completed`);
+    titleRow.createSpan({
+      cls: 'task-header-stats',
+      attr: {
+        'aria-label': Object.entries(stats.byStatus).map(([status, count]) => `${status}: ${count}`).join(', ')
+      }
+    }).setText(`${stats.active} active, ${stats.completed} completed`);
 
     if (stats.overdue > 0) {
       titleRow.createSpan({ cls: 'task-header-overdue' })
         .setText(`${stats.overdue} overdue`);
     }
+
+    this.indexProgressEl = header.createDiv({ cls: 'task-index-progress', attr: { role: 'status' } });
+    this.updateIndexProgress(this.taskCache.indexProgress);
+  }
+
+  /**
+   * Show how far a full refresh has got; tasks listed so far are partial
+   */
+  private updateIndexProgress(progress: IndexProgress | null): void {
+    if (!this.indexProgressEl) return;
+
+    if (!progress || progress.done >= progress.total) {
+      this.indexProgressEl.hide();
+      return;
+    }
+
+    this.indexProgressEl.empty();
+    this.indexProgressEl.createSpan({ text: `Indexing tasks… ${progress.done}/${progress.total}` });
+    this.indexProgressEl.createEl('progress', { attr: { max: progress.total, value: progress.done } });
+    this.indexProgressEl.show();
   }
 
   private renderControls(): void {
@@ -334,7 +368,7 @@ export class TaskPanelView extends ItemView {
     const searchContainer = filters.createDiv({ cls: 'task-search-container' });
     const searchInput = searchContainer.createEl('input', {
       type: 'text',
-      placeholder: 'Search tasks...',
+      placeholder: 'Search tasks... e.g. owner:me OR #urgent -is:done',
       cls: 'task-search-input',
       value: this.plugin.settings.searchQuery
     });
@@ -345,6 +379,9 @@ export class TaskPanelView extends ItemView {
       await this.refresh();
     });
 
+    this.queryErrorEl = filters.createDiv({ cls: 'task-search-error' });
+    this.queryErrorEl.hide();
+
     // Save filter button (Feature 3)
     if (this.plugin.settings.searchQuery) {
       searchContainer.createEl('button', {
@@ -472,65 +509,16 @@ export class TaskPanelView extends ItemView {
   }
 
   private applyFilters(): void {
-    let tasks = this.taskCache.getAllTasks();
-    const settings = this.plugin.settings;
-
-    // Advanced search with operator support
-    if (settings.searchQuery) {
-      const parsed = parseSearchQuery(settings.searchQuery);
-      if (parsed) {
-        // Apply parsed operator filters
-        if (parsed.owner) tasks = tasks.filter(t => t.owner?.toLowerCase() === parsed.owner!.toLowerCase());
-        if (parsed.project) tasks = tasks.filter(t => t.project?.toLowerCase() === parsed.project!.toLowerCase());
-        if (parsed.stage) tasks = tasks.filter(t => t.stage?.toLowerCase() === parsed.stage!.toLowerCase());
-        if (parsed.priority) tasks = tasks.filter(t => t.priority === parsed.priority);
-        if (parsed.tags && parsed.tags.length > 0) {
-          tasks = tasks.filter(t => parsed.tags!.every(tag => t.tags.includes(tag)));
-        }
-        if (parsed.filePath) {
-          const fp = parsed.filePath.toLowerCase();
-          tasks = tasks.filter(t => t.file.path.toLowerCase().includes(fp));
-        }
-        if (parsed.dueDateFilter === 'today') tasks = tasks.filter(t => isDueToday(t.dueDate));
-        else if (parsed.dueDateFilter === 'thisWeek') tasks = tasks.filter(t => t.dueDate != null);
-        else if (parsed.dueDateFilter === 'overdue') tasks = tasks.filter(t => isOverdue(t.dueDate) && !t.completed);
-        else if (parsed.dueDateFilter === 'noDueDate') tasks = tasks.filter(t => !t.dueDate);
-        if (parsed.dueDate) tasks = tasks.filter(t => t.dueDate === parsed.dueDate);
-        // Free text search
-        if (parsed.searchText) {
-          const query = parsed.searchText.toLowerCase();
-          tasks = tasks.filter(t =>
-            t.text.toLowerCase().includes(query) ||
-            t.owner?.toLowerCase().includes(query) ||
-            t.project?.toLowerCase().includes(query) ||
-            t.tags.some(tag => tag.toLowerCase().includes(query))
-          );
-        }
-      }
-    }
+    // An invalid search query shows its error and is ignored; the dropdowns still apply
+    const { options, error } = getViewFilter(this.plugin.settings);
+    const queryError = error ? `${error.message} (at character ${error.position + 1})` : null;
 
-    // Dropdown filters (applied on top of search)
-    if (settings.filterOwner) {
-      tasks = tasks.filter(t => t.owner === settings.filterOwner);
-    }
-    if (settings.filterProject) {
-      tasks = tasks.filter(t => t.project === settings.filterProject);
-    }
-    if (settings.filterStage) {
-      tasks = tasks.filter(t => t.stage === settings.filterStage);
-    }
-    if (settings.filterDueDate === 'today') {
-      tasks = tasks.filter(t => isDueToday(t.dueDate));
-    } else if (settings.filterDueDate === 'overdue') {
-      tasks = tasks.filter(t => isOverdue(t.dueDate) && !t.completed);
-    } else if (settings.filterDueDate) {
-      tasks = tasks.filter(t => t.dueDate === settings.filterDueDate);
-    }
-    if (settings.filterPriority) {
-      tasks = tasks.filter(t => t.priority === settings.filterPriority);
+    if (this.queryErrorEl) {
+      this.queryErrorEl.setText(queryError ?? '');
+      this.queryErrorEl.toggle(queryError !== null);
     }
 
-    this.filteredTasks = tasks;
+    this.filteredTasks = this.taskCache.getFilteredTasks(options);
   }
 
   private renderTaskSectionsInto(container: HTMLElement): void {
@@ -610,85 +598,11 @@ export class TaskPanelView extends ItemView {
   }
 
   private sortTasks(tasks: Task[]): Task[] {
-    const sorted = [...tasks];
-    const sortBy = this.plugin.settings.sortBy;
-
-    sorted.sort((a, b) => {
-      switch (sortBy) {
-        case 'dueDate':
-          return compareNullableStrings(a.dueDate, b.dueDate);
-
-        case 'owner':
-          if (!a.owner && !b.owner) return 0;
-          if (!a.owner) return 1;
-          if (!b.owner) return -1;
-          return a.owner.localeCompare(b.owner);
-
-        case 'priority': {
-          const order: Record<Priority, number> = { high: 0, medium: 1, low: 2 };
-          const aVal = a.priority ? order[a.priority] : 3;
-          const bVal = b.priority ? order[b.priority] : 3;
-          return aVal - bVal;
-        }
-
-        case 'project':
-          if (!a.project && !b.project) return 0;
-          if (!a.project) return 1;
-          if (!b.project) return -1;
-          return a.project.localeCompare(b.project);
-
-        case 'created':
-          return compareNullableStrings(a.createdDate, b.createdDate);
-
-        case 'stage': {
-          const stageOrder = STAGES.reduce((acc, s, i) => ({ ...acc, [s]: i }), {} as Record<string, number>);
-          const aIdx = a.stage ? stageOrder[a.stage] ?? 99 : 99;
-          const bIdx = b.stage ? stageOrder[b.stage] ?? 99 : 99;
-          return aIdx - bIdx;
-        }
-
-        default:
-          return 0;
-      }
-    });
-
-    return sorted;
+    return sortTasks(tasks, this.plugin.settings.sortBy);
   }
 
   private groupTasks(tasks: Task[]): Map<string, Task[]> {
-    const groups = new Map<string, Task[]>();
-    const groupBy = this.plugin.settings.groupBy;
-
-    for (const task of tasks) {
-      let key: string;
-
-      switch (groupBy) {
-        case 'dueDate':
-          key = task.dueDate ?? 'No Date';
-          break;
-        case 'owner':
-          key = task.owner ?? 'No Owner';
-          break;
-        case 'project':
-          key = task.project ?? 'No Project';
-          break;
-        case 'stage':
-          key = task.stage ?? 'Unassigned';
-          break;
-        case 'priority':
-          key = task.priority ?? 'No Priority';
-          break;
-        default:
-          key = 'All';
-      }
-
-      if (!groups.has(key)) {
-        groups.set(key, []);
-      }
-      groups.get(key)!.push(task);
-    }
-
-    return groups;
+    return groupTasks(tasks, this.plugin.settings.groupBy);
   }
 
   private renderGroupedTasks(container: HTMLElement, groups: Map<string, Task[]>, type: string): void {
@@ -747,6 +661,10 @@ export class TaskPanelView extends ItemView {
     if (task.priority) {
       item.addClass(`priority-${task.priority}`);
     }
+    const upcoming = this.plugin.taskCache.isUpcomingOccurrence(task);
+    if (upcoming) {
+      item.addClass('task-upcoming-occurrence');
+    }
 
     // Accessibility label
     const labelParts = [task.text];
@@ -761,19 +679,30 @@ export class TaskPanelView extends ItemView {
 
     item.setAttribute('aria-label', labelParts.join(', '));
 
+    item.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      new Menu()
+        .addItem(menuItem => menuItem
+          .setTitle('Move to…')
+          .setIcon('folder-input')
+          .onClick(() => new MoveTaskModal(this.app, this.plugin, task).open()))
+        .showAtMouseEvent(e);
+    });
+
     // Checkbox
+    const statuses = this.plugin.settings.taskStatuses;
+    const status = getTaskStatus(task.status, statuses);
     const checkbox = item.createEl('input', {
       type: 'checkbox',
-      attr: { 'aria-label': `Toggle task: ${task.text}` }
+      attr: { 'aria-label': `Toggle task: ${task.text}`, 'data-task': task.status }
     });
     checkbox.checked = task.completed;
 
     checkbox.addEventListener('change', async () => {
       const result = await this.taskUpdater.toggleTask(task);
       if (result.success) {
-        new Notice(task.completed ? 'Task unchecked' : 'Task checked');
-        await this.plugin.refreshTasks();
-        await this.refresh();
+        const newStatus = getTaskStatus(result.task?.status ?? task.status, statuses);
+        new Notice(`Task marked ${newStatus.name}`);
       } else {
         new Notice(`Error: ${result.error}`);
         checkbox.checked = task.completed;
@@ -790,6 +719,11 @@ export class TaskPanelView extends ItemView {
     // Metadata
     const meta = content.createDiv({ cls: 'task-metadata' });
 
+    // Plain open/done are already shown by the checkbox
+    if (status.symbol !== getTodoStatus(statuses).symbol && status.symbol !== getDoneStatus(statuses).symbol) {
+      meta.createSpan({ text: `[${status.symbol}] ${status.name}`, cls: 'task-status' });
+    }
+
     if (task.priority) {
       meta.createSpan({
         text: `${PRIORITY_ICONS[task.priority]} ${task.priority}`,
@@ -850,9 +784,9 @@ export class TaskPanelView extends ItemView {
 
     if (task.recurrence) {
       meta.createSpan({
-        text: '🔄',
+        text: upcoming ? '🔄 Upcoming' : '🔄',
         cls: 'task-recurring',
-        attr: { title: 'Recurring task' }
+        attr: { title: upcoming ? 'Upcoming occurrence of a recurring task' : 'Recurring task' }
       });
     }
 
@@ -922,11 +856,9 @@ export class TaskPanelView extends ItemView {
         if (task) {
           const result = await this.taskUpdater.toggleTask(task);
           if (result.success) {
-            const status = task.completed ? 'unchecked' : 'checked';
-            this.announce(`Task ${status}: ${task.text}`);
-            new Notice(`Task ${status}`);
-            await this.plugin.refreshTasks();
-            await this.refresh();
+            const status = getTaskStatus(result.task?.status ?? task.status, this.plugin.settings.taskStatuses).name;
+            this.announce(`Task marked ${status}: ${task.text}`);
+            new Notice(`Task marked ${status}`);
           } else {
             new Notice(`Error: ${result.error}`);
           }
@@ -4,6 +4,7 @@ import { Task, TaskStats } from '../types';
 import { TaskCache } from '../core/taskCache';
 import { isOverdue, isDueToday, parseISODate, getToday, addDays, formatDateToISO } from '../utils/dateUtils';
 import { getDependencyStatus, getBlockedTasks, getReadyTasks } from '../utils/dependencyUtils';
+import { getTaskStatus } from '../utils/statusUtils';
 
 // ========================================
 // Project Statistics
@@ -20,6 +21,7 @@ export interface ProjectStats {
   blocked: number;
   completionPercent: number;
   byStage: Record<string, number>;
+  byStatus: Record<string, number>;
   byPriority: Record<string, number>;
   recentlyCompleted: Task[];
   upcomingTasks: Task[];
@@ -36,6 +38,7 @@ export class ProjectDashboardModal extends Modal {
   private taskCache: TaskCache;
   private selectedProject: string | null = null;
   private activeTab: DashboardTab = 'projects';
+  private unsubscribe: (() => void) | null = null;
 
   constructor(app: App, plugin: TaskConsolidatorPlugin) {
     super(app);
@@ -46,9 +49,14 @@ export class ProjectDashboardModal extends Modal {
   onOpen(): void {
     this.modalEl.addClass('project-dashboard-modal');
     this.render();
+
+    // Stay in sync with edits made in notes while the dashboard is open
+    this.unsubscribe = this.taskCache.subscribe(() => this.render(), this.plugin.settings.refreshDebounceMs);
   }
 
   onClose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
     this.contentEl.empty();
   }
 
@@ -239,6 +247,17 @@ export class ProjectDashboardModal extends Modal {
       }
     }
 
+    // Status breakdown
+    const statusSection = detailsContainer.createDiv({ cls: 'details-section' });
+    statusSection.createEl('h4', { text: 'By Status' });
+    const statusGrid = statusSection.createDiv({ cls: 'stage-grid' });
+
+    for (const [status, count] of Object.entries(stats.byStatus)) {
+      const statusItem = statusGrid.createDiv({ cls: 'stage-item' });
+      statusItem.createSpan({ cls: 'stage-name', text: status });
+      statusItem.createSpan({ cls: 'stage-count', text: String(count) });
+    }
+
     // Priority breakdown
     const prioritySection = detailsContainer.createDiv({ cls: 'details-section' });
     prioritySection.createEl('h4', { text: 'By Priority' });
@@ -323,6 +342,7 @@ export class ProjectDashboardModal extends Modal {
     }).length;
 
     const byStage: Record<string, number> = {};
+    const byStatus: Record<string, number> = {};
     const byOwner: Record<string, number> = {};
     const byProject: Record<string, number> = {};
     const byPriority: Record<string, number> = { high: 0, medium: 0, low: 0 };
@@ -331,6 +351,9 @@ export class ProjectDashboardModal extends Modal {
       const stage = task.stage ?? 'Unassigned';
       byStage[stage] = (byStage[stage] ?? 0) + 1;
 
+      const status = getTaskStatus(task.status, this.plugin.settings.taskStatuses).name;
+      byStatus[status] = (byStatus[status] ?? 0) + 1;
+
       if (task.owner) {
         byOwner[task.owner] = (byOwner[task.owner] ?? 0) + 1;
       }
@@ -352,6 +375,7 @@ export class ProjectDashboardModal extends Modal {
       dueToday,
       dueThisWeek,
       byStage,
+      byStatus,
       byOwner,
       byProject,
       byPriority
@@ -379,12 +403,16 @@ export class ProjectDashboardModal extends Modal {
     const completionPercent = total > 0 ? Math.round((completed / total) * 100) : 0;
 
     const byStage: Record<string, number> = {};
+    const byStatus: Record<string, number> = {};
     const byPriority: Record<string, number> = { high: 0, medium: 0, low: 0, none: 0 };
 
     for (const task of tasks) {
       const stage = task.stage ?? 'Unassigned';
       byStage[stage] = (byStage[stage] ?? 0) + 1;
 
+      const status = getTaskStatus(task.status, this.plugin.settings.taskStatuses).name;
+      byStatus[status] = (byStatus[status] ?? 0) + 1;
+
       const priority = task.priority ?? 'none';
       byPriority[priority] = (byPriority[priority] ?? 0) + 1;
     }
@@ -412,6 +440,7 @@ export class ProjectDashboardModal extends Modal {
       blocked,
       completionPercent,
       byStage,
+      byStatus,
       byPriority,
       recentlyCompleted,
       upcomingTasks
@@ -450,9 +450,9 @@ export class QuickAddModal extends Modal {
     if (this.targetDailyNote) {
       // Add to daily note
       try {
-        await addTaskToDailyNote(this.app, getToday(), fullTaskText, this.settings);
+        const file = await addTaskToDailyNote(this.app, getToday(), fullTaskText, this.settings);
         new Notice('Task added to daily note');
-        await this.plugin.refreshTasks();
+        this.plugin.refreshWrittenFile(file);
         this.close();
       } catch (error) {
         new Notice(`Error: ${(error as Error).message}`);
@@ -475,7 +475,6 @@ export class QuickAddModal extends Modal {
 
       if (result.success) {
         new Notice('Task created successfully');
-        await this.plugin.refreshTasks();
         this.close();
       } else {
         new Notice(`Error: ${result.error}`);
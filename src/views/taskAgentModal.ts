@@ -1,8 +1,9 @@
 import { Modal, App, Setting, Notice, Editor, MarkdownView } from 'obsidian';
 import type TaskConsolidatorPlugin from '../main';
-import { Task, Priority } from '../types';
+import { Task, TaskUpdates, Priority } from '../types';
 import { STAGES, PRIORITIES } from '../types/constants';
 import { parseTaskLine } from '../core/taskParser';
+import { rewriteTaskLine } from '../core/taskLineWriter';
 import { formatDateToISO, getToday } from '../utils/dateUtils';
 import { validateTaskText } from '../utils/validation';
 
@@ -47,7 +48,8 @@ export class TaskAgentModal extends Modal {
         lineText,
         file,
         this.cursorLine,
-        plugin.settings.customStages
+        plugin.settings.customStages,
+        plugin.settings.taskStatuses
       );
     }
 
@@ -253,11 +255,31 @@ export class TaskAgentModal extends Modal {
     });
   }
 
+  private buildUpdates(): TaskUpdates {
+    return {
+      text: this.taskText,
+      owner: this.selectedOwner || null,
+      dueDate: this.selectedDueDate || null,
+      stage: this.selectedStage || null,
+      project: this.selectedProject || null,
+      priority: this.selectedPriority || null,
+      tags: this.selectedTags
+    };
+  }
+
   private buildPreviewLine(): string {
-    const checkbox = this.isEditMode && this.existingTask?.completed ? 'x' : ' ';
-    const indent = this.isEditMode ? (this.existingTask?.indent ?? '') : '';
     const text = this.taskText || '...';
 
+    // Edit mode previews exactly what will be written to the file
+    if (this.isEditMode && this.existingTask) {
+      return rewriteTaskLine(
+        this.existingTask,
+        { ...this.buildUpdates(), text },
+        this.plugin.settings.customStages,
+        this.plugin.settings.taskStatuses
+      );
+    }
+
     // Build metadata
     const metadataParts: string[] = [];
     if (this.selectedOwner) metadataParts.push(this.selectedOwner);
@@ -274,15 +296,11 @@ export class TaskAgentModal extends Modal {
       taskLine += ` [priority:${this.selectedPriority}]`;
     }
 
-    if (this.isEditMode && this.existingTask?.recurrence) {
-      taskLine += ` [repeat:${this.existingTask.recurrence.rawString ?? this.existingTask.recurrence.type}]`;
-    }
-
     if (this.selectedTags.length > 0) {
       taskLine += ' ' + this.selectedTags.map(t => `#${t}`).join(' ');
     }
 
-    return `${indent}- [${checkbox}] ${taskLine}`;
+    return `- [ ] ${taskLine}`;
   }
 
   private updatePreview(): void {
@@ -313,19 +331,10 @@ export class TaskAgentModal extends Modal {
 
     if (this.isEditMode && this.existingTask) {
       // Edit mode: update existing task
-      const result = await this.plugin.taskUpdater.updateTask(this.existingTask, {
-        text: this.taskText,
-        owner: this.selectedOwner || null,
-        dueDate: this.selectedDueDate || null,
-        stage: this.selectedStage || null,
-        project: this.selectedProject || null,
-        priority: this.selectedPriority || null,
-        tags: this.selectedTags
-      });
+      const result = await this.plugin.taskUpdater.updateTask(this.existingTask, this.buildUpdates());
 
       if (result.success) {
         new Notice('Task updated');
-        await this.plugin.refreshTasks();
         this.close();
       } else {
         new Notice(`Error: ${result.error}`);
@@ -344,7 +353,6 @@ export class TaskAgentModal extends Modal {
 
       if (result.success) {
         new Notice('Task created at cursor');
-        await this.plugin.refreshTasks();
         this.close();
       } else {
         new Notice(`Error: ${result.error}`);
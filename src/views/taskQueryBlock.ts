@@ -0,0 +1,176 @@
+import { MarkdownRenderChild, Notice } from 'obsidian';
+import type TaskConsolidatorPlugin from '../main';
+import { Task, TaskBlockQuery } from '../types';
+import { STAGES, PRIORITY_ICONS, GROUP_ICONS } from '../types/constants';
+import { isOverdue, getRelativeDateString } from '../utils/dateUtils';
+import { getTaskStatus, getDoneStatus, getTodoStatus } from '../utils/statusUtils';
+import { openTaskInEditor } from '../utils/editorUtils';
+import { sortTasks, groupTasks } from '../utils/taskSorting';
+import { parseTaskBlockQuery, QueryParseError } from '../utils/searchParser';
+
+// ========================================
+// Embedded Task Query Block
+// ========================================
+
+/**
+ * Live task list rendered from a ```task-consolidator``` code block.
+ * Each block re-renders itself once reindexed files settle.
+ */
+export class TaskQueryBlock extends MarkdownRenderChild {
+  private plugin: TaskConsolidatorPlugin;
+  private source: string;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(containerEl: HTMLElement, plugin: TaskConsolidatorPlugin, source: string) {
+    super(containerEl);
+    this.plugin = plugin;
+    this.source = source;
+  }
+
+  onload(): void {
+    this.render();
+    this.unsubscribe = this.plugin.taskCache.subscribe(() => this.render(), this.plugin.settings.refreshDebounceMs);
+  }
+
+  onunload(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  render(): void {
+    const container = this.containerEl;
+    container.empty();
+    container.addClass('task-query-block');
+
+    let blockQuery: TaskBlockQuery;
+    try {
+      blockQuery = parseTaskBlockQuery(this.source);
+    } catch (error) {
+      if (!(error instanceof QueryParseError)) throw error;
+      container.createDiv({
+        cls: 'task-query-error',
+        text: `Invalid task query: ${error.message} (at character ${error.position + 1})`
+      });
+      return;
+    }
+
+    const settings = this.plugin.settings;
+    let tasks = this.plugin.taskCache.getFilteredTasks({ query: blockQuery.query });
+    tasks = sortTasks(tasks, blockQuery.sortBy ?? settings.sortBy);
+
+    const total = tasks.length;
+    if (blockQuery.limit !== null) {
+      tasks = tasks.slice(0, blockQuery.limit);
+    }
+
+    container.createDiv({
+      cls: 'task-query-summary',
+      text: tasks.length < total ? `${tasks.length} of ${total} tasks` : `${total} task${total === 1 ? '' : 's'}`
+    });
+
+    if (tasks.length === 0) {
+      container.createEl('p', { text: 'No matching tasks', cls: 'task-empty' });
+      return;
+    }
+
+    if (blockQuery.groupBy === 'none') {
+      this.renderList(container, tasks);
+      return;
+    }
+
+    for (const [groupName, groupTasksList] of groupTasks(tasks, blockQuery.groupBy)) {
+      const group = container.createDiv({ cls: 'task-query-group' });
+      group.createDiv({
+        cls: 'task-query-group-title',
+        text: `${GROUP_ICONS[blockQuery.groupBy]} ${groupName} (${groupTasksList.length})`
+      });
+      this.renderList(group, groupTasksList);
+    }
+  }
+
+  private renderList(container: HTMLElement, tasks: Task[]): void {
+    const list = container.createEl('ul', { cls: 'task-query-list' });
+    for (const task of tasks) {
+      this.renderTask(list, task);
+    }
+  }
+
+  private renderTask(list: HTMLElement, task: Task): void {
+    const item = list.createEl('li', { cls: 'task-query-item' });
+    if (isOverdue(task.dueDate) && !task.completed) {
+      item.addClass('overdue');
+    }
+
+    const statuses = this.plugin.settings.taskStatuses;
+    const status = getTaskStatus(task.status, statuses);
+    const checkbox = item.createEl('input', {
+      type: 'checkbox',
+      attr: { 'aria-label': `Toggle task: ${task.text}`, 'data-task': task.status }
+    });
+    checkbox.checked = task.completed;
+    checkbox.addEventListener('change', async () => {
+      const result = await this.plugin.taskUpdater.toggleTask(task);
+      if (result.success) {
+        const newStatus = getTaskStatus(result.task?.status ?? task.status, statuses);
+        new Notice(`Task marked ${newStatus.name}`);
+      } else {
+        new Notice(`Error: ${result.error}`);
+        checkbox.checked = task.completed;
+      }
+    });
+
+    const textEl = item.createSpan({ cls: 'task-query-text', text: task.text });
+    if (task.completed) textEl.addClass('task-completed');
+
+    const meta = item.createSpan({ cls: 'task-query-meta' });
+
+    if (status.symbol !== getTodoStatus(statuses).symbol && status.symbol !== getDoneStatus(statuses).symbol) {
+      meta.createSpan({ text: `[${status.symbol}] ${status.name}`, cls: 'task-status' });
+    }
+    if (task.priority) {
+      meta.createSpan({ text: PRIORITY_ICONS[task.priority], attr: { 'aria-label': `Priority: ${task.priority}` } });
+    }
+    if (task.dueDate) {
+      const dateSpan = meta.createSpan({ text: `📅 ${getRelativeDateString(task.dueDate)}` });
+      if (isOverdue(task.dueDate) && !task.completed) dateSpan.addClass('overdue');
+    }
+    if (task.owner) {
+      meta.createSpan({ text: `👤 ${task.owner}` });
+    }
+
+    this.renderStageSelect(item, task);
+
+    item.createEl('a', {
+      cls: 'task-query-file',
+      text: `📄 ${task.file.basename}`,
+      attr: { 'aria-label': `Open ${task.file.path} at line ${task.lineNumber + 1}` }
+    }).addEventListener('click', async (e) => {
+      e.preventDefault();
+      await openTaskInEditor(this.plugin.app, task);
+    });
+  }
+
+  private renderStageSelect(item: HTMLElement, task: Task): void {
+    const select = item.createEl('select', {
+      cls: 'task-query-stage',
+      attr: { 'aria-label': `Stage for ${task.text}` }
+    });
+    select.createEl('option', { text: 'Unassigned', value: '' });
+
+    for (const stage of [...STAGES, ...this.plugin.settings.customStages]) {
+      const option = select.createEl('option', { text: stage, value: stage });
+      if (stage === task.stage) option.selected = true;
+    }
+
+    select.addEventListener('change', async () => {
+      const stage = select.value || null;
+      const result = await this.plugin.taskUpdater.updateTaskStage(task, stage);
+      if (result.success) {
+        new Notice(`Task moved to ${stage ?? 'Unassigned'}`);
+      } else {
+        new Notice(`Error: ${result.error}`);
+        select.value = task.stage ?? '';
+      }
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import { Modal, App } from 'obsidian';
 import type TaskConsolidatorPlugin from '../main';
 import { Task } from '../types';
+import { parseDurationToMinutes } from '../utils/textUtils';
 
 interface TimeEntry {
   label: string;
@@ -14,6 +15,7 @@ interface TimeEntry {
  */
 export class TimeReportModal extends Modal {
   private plugin: TaskConsolidatorPlugin;
+  private unsubscribe: (() => void) | null = null;
 
   constructor(app: App, plugin: TaskConsolidatorPlugin) {
     super(app);
@@ -23,9 +25,14 @@ export class TimeReportModal extends Modal {
   onOpen(): void {
     this.modalEl.addClass('time-report-modal');
     this.render();
+
+    // Stay in sync with edits made in notes while the report is open
+    this.unsubscribe = this.plugin.taskCache.subscribe(() => this.render(), this.plugin.settings.refreshDebounceMs);
   }
 
   onClose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
     this.contentEl.empty();
   }
 
@@ -96,7 +103,7 @@ export class TimeReportModal extends Modal {
   private sumTime(timeStrs: string[]): string {
     let totalMinutes = 0;
     for (const str of timeStrs) {
-      totalMinutes += this.parseTimeToMinutes(str);
+      totalMinutes += parseDurationToMinutes(str) ?? 0;
     }
     if (totalMinutes === 0) return '';
     const hours = Math.floor(totalMinutes / 60);
@@ -106,17 +113,4 @@ export class TimeReportModal extends Modal {
     return `${hours}h${mins}m`;
   }
 
-  private parseTimeToMinutes(timeStr: string): number {
-    let minutes = 0;
-    const hourMatch = timeStr.match(/(\d+)\s*h/i);
-    const minMatch = timeStr.match(/(\d+)\s*m/i);
-    if (hourMatch) minutes += parseInt(hourMatch[1], 10) * 60;
-    if (minMatch) minutes += parseInt(minMatch[1], 10);
-    // Handle plain number as hours
-    if (!hourMatch && !minMatch) {
-      const num = parseFloat(timeStr);
-      if (!isNaN(num)) minutes = Math.round(num * 60);
-    }
-    return minutes;
-  }
 }